@@ -0,0 +1,162 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import axios from 'axios';
+
+/**
+ * Local JSON-RPC stand-in serving recorded responses
+ *
+ * Replays the chain head, blocks and `eth_call` results stored in a JSON recording so the
+ * DEX provider can be exercised without an Alchemy key or network access:
+ *
+ *   npm run mock:rpc
+ *   ALCHEMY_RPC_URL=http://localhost:8545 PRICE_PROVIDERS=dex npm run dev
+ *
+ * With --record <url>, requests missing from the recording are forwarded to that
+ * endpoint and their responses are added to the file.
+ *
+ * Options: --port (8545), --file (fixtures/dex-rpc.json), --record <url>
+ */
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  method: string;
+  params?: unknown[];
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface RecordedBlock {
+  number: string;
+  timestamp: string;
+  [field: string]: unknown;
+}
+
+interface Recording {
+  chainId: string;
+  head: RecordedBlock | null;
+  blocks?: Record<string, RecordedBlock>; // block number (hex) -> block
+  calls: Record<string, string>; // `${to}:${data}:${blockTag}` -> result
+}
+
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const PORT = parseInt(option('port') || '8545');
+const RECORDING_PATH = path.resolve(option('file') || 'fixtures/dex-rpc.json');
+const UPSTREAM_URL = option('record');
+
+const recording: Recording = fs.existsSync(RECORDING_PATH)
+  ? JSON.parse(fs.readFileSync(RECORDING_PATH, 'utf8'))
+  : { chainId: '0x1', head: null, calls: {} };
+
+function save(): void {
+  fs.writeFileSync(RECORDING_PATH, JSON.stringify(recording, null, 2) + '\n');
+}
+
+async function forward(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+  const response = await axios.post(UPSTREAM_URL!, request, { timeout: 30000 });
+  return response.data;
+}
+
+function getCallKey(params: unknown[] = []): string {
+  const [transaction, blockTag = 'latest'] = params as [{ to: string; data: string }, string?];
+  return `${transaction.to}:${transaction.data}:${blockTag}`.toLowerCase();
+}
+
+async function handle(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+  const reply = (result: unknown): JsonRpcResponse => ({ jsonrpc: '2.0', id: request.id, result });
+
+  switch (request.method) {
+    case 'eth_chainId':
+      return reply(recording.chainId);
+
+    case 'net_version':
+      return reply(parseInt(recording.chainId, 16).toString());
+
+    case 'eth_blockNumber':
+    case 'eth_getBlockByNumber': {
+      const [blockTag = 'latest'] = (request.params || []) as [string?];
+
+      if (request.method === 'eth_getBlockByNumber' && blockTag !== 'latest') {
+        const blocks = recording.blocks || (recording.blocks = {});
+        const key = blockTag.toLowerCase();
+        if (!blocks[key] && UPSTREAM_URL) {
+          const upstream = await forward({ ...request, params: [key, false] });
+          if (upstream.result) {
+            blocks[key] = upstream.result as RecordedBlock;
+            save();
+          }
+        }
+        if (blocks[key]) {
+          return reply(blocks[key]);
+        }
+        console.warn(`No recorded block ${key}`);
+        return reply(null);
+      }
+
+      // The recorded head stays the chain head, so block lookups match the recording
+      if (!recording.head && UPSTREAM_URL) {
+        const upstream = await forward({ jsonrpc: '2.0', id: request.id, method: 'eth_getBlockByNumber', params: ['latest', false] });
+        recording.head = upstream.result as RecordedBlock;
+        save();
+      }
+      if (!recording.head) {
+        break;
+      }
+      return reply(request.method === 'eth_blockNumber' ? recording.head.number : recording.head);
+    }
+
+    case 'eth_call': {
+      const key = getCallKey(request.params);
+      if (recording.calls[key] !== undefined) {
+        return reply(recording.calls[key]);
+      }
+      if (UPSTREAM_URL) {
+        const upstream = await forward(request);
+        if (upstream.result !== undefined) {
+          recording.calls[key] = upstream.result as string;
+          save();
+        }
+        return { ...upstream, id: request.id };
+      }
+      console.warn(`No recorded eth_call for ${key}`);
+      return { jsonrpc: '2.0', id: request.id, error: { code: -32000, message: `No recorded response for ${key}` } };
+    }
+  }
+
+  return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `Method not recorded: ${request.method}` } };
+}
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', async () => {
+    try {
+      const payload = JSON.parse(body);
+      const result = Array.isArray(payload)
+        ? await Promise.all(payload.map(handle))
+        : await handle(payload);
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result));
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: String(error) } }));
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  const mode = UPSTREAM_URL ? `recording from ${UPSTREAM_URL}` : 'replaying';
+  console.log(`Mock JSON-RPC on http://localhost:${PORT} (${mode} ${RECORDING_PATH})`);
+});
@@ -7,6 +7,8 @@ import routes from './routes';
 import redisService from './services/redis';
 import mongoService from './services/mongodb';
 import bullMQService from './services/bullmq';
+import tokenRegistry from './services/tokenRegistry';
+import priceStream from './services/priceStream';
 import logger from './utils/logger';
 
 // Load environment variables
@@ -77,7 +79,12 @@ app.get('/', (req, res) => {
       price: `${API_PREFIX}/price`,
       schedule: `${API_PREFIX}/schedule`,
       priceHistory: `${API_PREFIX}/price/history`,
-      supportedNetworks: `${API_PREFIX}/price/supported-networks`
+      candles: `${API_PREFIX}/price/candles`,
+      supportedNetworks: `${API_PREFIX}/price/supported-networks`,
+      tokens: `${API_PREFIX}/tokens/:network/:address`,
+      coverage: `${API_PREFIX}/coverage/:network/:token`,
+      blocks: `${API_PREFIX}/blocks/:network`,
+      priceStream: priceStream.path
     }
   });
 });
@@ -110,8 +117,9 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
 const gracefulShutdown = (signal: string) => {
   logger.info(`Received ${signal}. Shutting down gracefully...`);
 
-  // Close Redis connection
-  redisService.disconnect()
+  // Close live price connections, then Redis
+  priceStream.close()
+    .then(() => redisService.disconnect())
     .then(() => {
       logger.info('Redis connection closed');
       process.exit(0);
@@ -137,6 +145,9 @@ async function startServer() {
       logger.warn('MongoDB connection failed, continuing without database:', mongoError);
     }
 
+    // Load admin-added token registry entries
+    await tokenRegistry.initialize();
+
     // Try to initialize Redis connection (optional)
     try {
       await redisService.connect();
@@ -148,11 +159,28 @@ async function startServer() {
     // BullMQ service is initialized in constructor
     logger.info('BullMQ service status checked');
 
-    app.listen(PORT, () => {
+    // Make sure every enabled scheduled job has a repeatable job scheduler
+    try {
+      const scheduledJobs = await mongoService.getScheduledJobs();
+      for (const job of scheduledJobs.filter(job => job.enabled)) {
+        await bullMQService.upsertJobScheduler(job.id, job.interval, {
+          token: job.token,
+          network: job.network,
+          requestId: job.id
+        }, job.timezone);
+      }
+    } catch (schedulerError) {
+      logger.warn('Failed to sync scheduled jobs with BullMQ:', schedulerError);
+    }
+
+    const server = app.listen(PORT, () => {
       logger.info(`Server running on port ${PORT}`);
       logger.info(`API endpoints available at http://localhost:${PORT}${API_PREFIX}`);
       logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
     });
+
+    // Live price subscriptions share the HTTP server
+    priceStream.attach(server);
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
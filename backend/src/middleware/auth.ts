@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import logger from '../utils/logger';
+
+/**
+ * Admin authentication middleware
+ * Requires `Authorization: Bearer <ADMIN_API_KEY>` on admin routes
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  if (!adminKey) {
+    res.status(503).json({
+      error: 'Admin API disabled',
+      message: 'ADMIN_API_KEY is not configured'
+    });
+    return;
+  }
+
+  const header = req.headers.authorization || '';
+  const providedKey = header.startsWith('Bearer ') ? header.slice(7) : '';
+
+  const expected = Buffer.from(adminKey);
+  const provided = Buffer.from(providedKey);
+
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    logger.warn(`Rejected admin request to ${req.path} from ${req.ip}`);
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid admin API key is required'
+    });
+    return;
+  }
+
+  next();
+};
+
+const authMiddleware = {
+  requireAdmin
+};
+
+export default authMiddleware;
@@ -1,11 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import redisService from '../services/redis';
+import priceCache, { PriceCacheRequest } from '../services/priceCache';
+import tieredCache from '../services/tieredCache';
 import logger from '../utils/logger';
-import { CacheData } from '../types';
+import { PriceResponse } from '../types';
 
 /**
  * Redis caching middleware for Express
- * Checks Redis cache for existing data and sets up cache key for storing new data
+ * Serves cached price responses with `X-Cache: HIT` and sets up the cache key for storing new ones
  */
 export const cacheMiddleware = (keyGenerator?: (req: Request) => string) => {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -14,71 +16,67 @@ export const cacheMiddleware = (keyGenerator?: (req: Request) => string) => {
       const cacheKey = keyGenerator ? keyGenerator(req) : generateDefaultCacheKey(req);
       
       // Attach cache key to request for later use
-      (req as any).redisKey = cacheKey;
+      req.redisKey = cacheKey;
 
       // Check if data exists in cache
-      const cachedData = await redisService.get(cacheKey);
+      const cachedData = await priceCache.get(cacheKey);
       
       if (cachedData) {
-        try {
-          const parsedData: CacheData = JSON.parse(cachedData);
-          
+        const minConfidence = req.body?.minConfidence ?? req.query.minConfidence;
+
+        // Cached prices below the requested confidence are resolved again
+        if (minConfidence === undefined || (cachedData.response.confidence ?? 0) >= parseFloat(minConfidence)) {
           logger.info(`Cache hit for key: ${cacheKey}`);
-          
-          // Return cached data
-          res.json({
-            ...parsedData,
-            source: 'cache'
-          });
+
+          res.set('X-Cache', 'HIT');
+          res.json(priceCache.toResponse(cachedData));
           return;
-        } catch (parseError) {
-          logger.error('Error parsing cached data:', parseError);
-          // Continue to next middleware if cache data is corrupted
         }
       }
 
       logger.info(`Cache miss for key: ${cacheKey}`);
+      res.set('X-Cache', 'MISS');
       
       // Store cache key in request for downstream handlers
-      (req as any).cacheKey = cacheKey;
+      req.cacheKey = cacheKey;
       
       next();
     } catch (error) {
       logger.error('Cache middleware error:', error);
       // Continue without caching if Redis is unavailable
+      res.set('X-Cache', 'MISS');
       next();
     }
   };
 };
 
 /**
- * Middleware to cache successful responses
+ * Middleware to cache successful price responses in full
  */
 export const setCacheMiddleware = (ttl?: number) => {
   return (req: Request, res: Response, next: NextFunction) => {
     const originalSend = res.send;
     
     res.send = function(data: any) {
+      const cacheKey = req.cacheKey || req.redisKey;
+
       // Only cache successful responses
-      if (res.statusCode >= 200 && res.statusCode < 300) {
-        const cacheKey = (req as any).cacheKey || (req as any).redisKey;
-        
-        if (cacheKey) {
-          const cacheData: CacheData = {
-            price: typeof data === 'string' ? JSON.parse(data).price : data.price,
-            source: 'alchemy',
-            timestamp: new Date().toISOString(),
-            cachedAt: new Date().toISOString()
-          };
+      if (cacheKey && res.statusCode >= 200 && res.statusCode < 300) {
+        try {
+          const body: PriceResponse = typeof data === 'string' ? JSON.parse(data) : data;
 
           // Cache the response asynchronously
-          redisService.set(cacheKey, JSON.stringify(cacheData), ttl)
-            .then(() => {
-              logger.info(`Data cached with key: ${cacheKey}`);
+          priceCache.set(cacheKey, body, ttl)
+            .then((cached) => {
+              if (cached) {
+                logger.info(`Data cached with key: ${cacheKey}`);
+              }
             })
             .catch((error) => {
               logger.error('Error caching data:', error);
             });
+        } catch (error) {
+          logger.error('Error parsing response for cache:', error);
         }
       }
       
@@ -89,46 +87,54 @@ export const setCacheMiddleware = (ttl?: number) => {
   };
 };
 
+/**
+ * Read the parts of a price request that decide its response from the body (POST) or query (GET)
+ */
+export function getPriceCacheRequest(req: Request): PriceCacheRequest {
+  const param = (name: string) => req.body?.[name] ?? req.query[name];
+  const aggregate = String(param('aggregate')) === 'true';
+
+  return {
+    token: param('token'),
+    network: param('network'),
+    timestamp: param('timestamp'),
+    method: param('method'),
+    aggregation: aggregate ? param('aggregation') || 'median' : undefined
+  };
+}
+
 /**
  * Generate default cache key for price requests
  */
 function generateDefaultCacheKey(req: Request): string {
-  const { token, network, timestamp } = req.body;
+  const request = getPriceCacheRequest(req);
   
   // Check if we have the required fields
-  if (!token || !network) {
-    // Fallback key generation for requests without proper body
+  if (!request.token || !request.network) {
+    // Fallback key generation for requests without a token and network
     return `request:${req.method}:${req.path}:${Date.now()}`;
   }
   
-  // Use timestamp or current time if not provided
-  const effectiveTimestamp = timestamp || new Date().toISOString();
-  
-  return redisService.generateKey(token, network, effectiveTimestamp);
+  return priceCache.getKey(request);
 }
 
 /**
- * Price-specific cache middleware
+ * Price-specific cache middleware, keyed on the price request from the body or query
  */
-export const priceCacheMiddleware = cacheMiddleware((req: Request) => {
-  const { token, network, timestamp } = req.body;
-  return redisService.generateKey(token, network, timestamp);
-});
+export const priceCacheMiddleware = cacheMiddleware();
 
 /**
- * Clear cache for specific keys
+ * Clear cache for keys matching a glob pattern, or the whole cache
  */
 export const clearCacheMiddleware = (keyPattern?: string) => {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
       if (keyPattern) {
-        // In a real implementation, you might want to use Redis SCAN
-        // to find and delete keys matching a pattern
-        await redisService.del(keyPattern);
-        logger.info(`Cache cleared for pattern: ${keyPattern}`);
+        const deleted = await tieredCache.delPattern(keyPattern);
+        logger.info(`Cache cleared for pattern: ${keyPattern} (${deleted} keys)`);
       } else {
         // Clear all cache
-        await redisService.flush();
+        await tieredCache.clear();
         logger.info('All cache cleared');
       }
       
@@ -145,9 +151,9 @@ export const clearCacheMiddleware = (keyPattern?: string) => {
  */
 export const cacheHealthMiddleware = (req: Request, res: Response, next: NextFunction) => {
   if (redisService.isReady()) {
-    (req as any).cacheStatus = 'healthy';
+    req.cacheStatus = 'healthy';
   } else {
-    (req as any).cacheStatus = 'unhealthy';
+    req.cacheStatus = 'unhealthy';
   }
   
   next();
@@ -1,4 +1,9 @@
 import { body, query, param } from 'express-validator';
+import { isValidTimezone, normalizeCronExpression, validateCronExpression } from '../utils/cron';
+import { AGGREGATION_METHODS, EXTRAPOLATION_MODES, INTERPOLATION_METHODS } from '../types';
+
+// Longest gap extrapolation may bridge
+const MAX_EXTRAPOLATION_STALENESS = 30 * 24 * 60 * 60; // 30 days in seconds
 
 /**
  * Validation for price request (POST - body parameters)
@@ -33,7 +38,37 @@ export const validatePriceRequest = [
         throw new Error('Timestamp cannot be in the future');
       }
       return true;
-    })
+    }),
+
+  body('method')
+    .optional()
+    .isIn(INTERPOLATION_METHODS)
+    .withMessage(`Method must be one of: ${INTERPOLATION_METHODS.join(', ')}`),
+
+  body('extrapolate')
+    .optional()
+    .isIn(EXTRAPOLATION_MODES)
+    .withMessage(`Extrapolate must be one of: ${EXTRAPOLATION_MODES.join(', ')}`),
+
+  body('maxStaleness')
+    .optional()
+    .isInt({ min: 1, max: MAX_EXTRAPOLATION_STALENESS })
+    .withMessage(`Max staleness must be between 1 and ${MAX_EXTRAPOLATION_STALENESS} seconds`),
+
+  body('minConfidence')
+    .optional()
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Min confidence must be between 0 and 1'),
+
+  body('aggregate')
+    .optional()
+    .isBoolean()
+    .withMessage('Aggregate must be a boolean value'),
+
+  body('aggregation')
+    .optional()
+    .isIn(AGGREGATION_METHODS)
+    .withMessage(`Aggregation must be one of: ${AGGREGATION_METHODS.join(', ')}`)
 ];
 
 /**
@@ -64,7 +99,51 @@ export const validatePriceQueryRequest = [
         }
       }
       return true;
-    })
+    }),
+
+  query('method')
+    .optional()
+    .isIn(INTERPOLATION_METHODS)
+    .withMessage(`Method must be one of: ${INTERPOLATION_METHODS.join(', ')}`),
+
+  query('extrapolate')
+    .optional()
+    .isIn(EXTRAPOLATION_MODES)
+    .withMessage(`Extrapolate must be one of: ${EXTRAPOLATION_MODES.join(', ')}`),
+
+  query('maxStaleness')
+    .optional()
+    .isInt({ min: 1, max: MAX_EXTRAPOLATION_STALENESS })
+    .withMessage(`Max staleness must be between 1 and ${MAX_EXTRAPOLATION_STALENESS} seconds`),
+
+  query('minConfidence')
+    .optional()
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Min confidence must be between 0 and 1'),
+
+  query('aggregate')
+    .optional()
+    .isBoolean()
+    .withMessage('Aggregate must be a boolean value'),
+
+  query('aggregation')
+    .optional()
+    .isIn(AGGREGATION_METHODS)
+    .withMessage(`Aggregation must be one of: ${AGGREGATION_METHODS.join(', ')}`)
+];
+
+/**
+ * Validation for batch price request
+ * Individual items are validated by the handler so errors can be reported per item
+ */
+export const validateBatchPriceRequest = [
+  body('items')
+    .isArray({ min: 1, max: 100 })
+    .withMessage('Items must be an array of 1-100 price requests'),
+
+  body('items.*')
+    .isObject()
+    .withMessage('Each item must be an object with token, network and optional timestamp')
 ];
 
 /**
@@ -85,8 +164,29 @@ export const validateScheduleRequest = [
   body('interval')
     .optional()
     .isString()
-    .matches(/^[0-9\s\*\/\-,]+$/)
-    .withMessage('Interval must be a valid cron expression'),
+    .withMessage('Interval must be a cron expression string')
+    .bail()
+    .custom((value, { req }) => {
+      // An invalid timezone is reported by its own validator
+      const timezone = req.body.timezone;
+      const result = validateCronExpression(
+        value,
+        typeof timezone === 'string' && isValidTimezone(timezone) ? timezone : undefined
+      );
+
+      if (!result.valid) {
+        throw new Error(`Interval must be a valid cron expression: ${result.error}`);
+      }
+      return true;
+    })
+    // Stored and scheduled in the form the parser understands
+    .customSanitizer(normalizeCronExpression),
+
+  body('timezone')
+    .optional()
+    .isString()
+    .custom((value) => isValidTimezone(value))
+    .withMessage('Timezone must be a valid IANA timezone name (e.g. Europe/London)'),
   
   body('enabled')
     .optional()
@@ -125,6 +225,49 @@ export const validatePriceHistoryRequest = [
       return true;
     }),
   
+  query('interval')
+    .optional()
+    .isString()
+    .isIn(['1m', '5m', '15m', '30m', '1h', '4h', '1d'])
+    .withMessage('Interval must be one of: 1m, 5m, 15m, 30m, 1h, 4h, 1d'),
+
+  query('backfill')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('Backfill must be true or false')
+];
+
+/**
+ * Validation for candles request
+ */
+export const validateCandlesRequest = [
+  query('token')
+    .isString()
+    .isLength({ min: 1, max: 10 })
+    .matches(/^[A-Za-z0-9]+$/)
+    .withMessage('Token must be a valid alphanumeric string (1-10 characters)'),
+
+  query('network')
+    .isString()
+    .isIn(['ethereum', 'polygon', 'arbitrum', 'optimism', 'base'])
+    .withMessage('Network must be one of: ethereum, polygon, arbitrum, optimism, base'),
+
+  query('from')
+    .isISO8601()
+    .withMessage('From timestamp must be a valid ISO 8601 date string'),
+
+  query('to')
+    .isISO8601()
+    .withMessage('To timestamp must be a valid ISO 8601 date string')
+    .custom((value, { req }) => {
+      const fromDate = new Date(req.query?.from as string);
+      const toDate = new Date(value);
+      if (toDate <= fromDate) {
+        throw new Error('To timestamp must be after from timestamp');
+      }
+      return true;
+    }),
+
   query('interval')
     .optional()
     .isString()
@@ -132,6 +275,55 @@ export const validatePriceHistoryRequest = [
     .withMessage('Interval must be one of: 1m, 5m, 15m, 30m, 1h, 4h, 1d')
 ];
 
+/**
+ * Validation for block lookup request
+ */
+export const validateBlockRequest = [
+  param('network')
+    .isIn(['ethereum', 'polygon', 'arbitrum', 'optimism', 'base'])
+    .withMessage('Network must be one of: ethereum, polygon, arbitrum, optimism, base'),
+
+  query('timestamp')
+    .optional()
+    .isISO8601()
+    .withMessage('Timestamp must be a valid ISO 8601 date string')
+    .custom((value) => {
+      if (new Date(value) > new Date()) {
+        throw new Error('Timestamp cannot be in the future');
+      }
+      return true;
+    })
+];
+
+/**
+ * Validation for data coverage request
+ */
+export const validateCoverageRequest = [
+  param('network')
+    .isIn(['ethereum', 'polygon', 'arbitrum', 'optimism', 'base'])
+    .withMessage('Network must be one of: ethereum, polygon, arbitrum, optimism, base'),
+
+  param('token')
+    .matches(/^(0x[a-fA-F0-9]{40}|[A-Za-z0-9]{2,10})$/)
+    .withMessage('Token must be a valid contract address (0x...) or symbol (2-10 chars)'),
+
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From timestamp must be a valid ISO 8601 date string'),
+
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To timestamp must be a valid ISO 8601 date string')
+    .custom((value, { req }) => {
+      if (req.query?.from && new Date(value) <= new Date(req.query.from as string)) {
+        throw new Error('To timestamp must be after from timestamp');
+      }
+      return true;
+    })
+];
+
 /**
  * Validation for job ID parameter
  */
@@ -141,6 +333,19 @@ export const validateJobId = [
     .withMessage('Job ID must be a valid UUID')
 ];
 
+/**
+ * Validation for job events stream
+ */
+export const validateJobEventsRequest = [
+  ...validateJobId,
+
+  query('runId')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Run ID must be a queue job ID')
+];
+
 /**
  * Validation for job update request
  */
@@ -150,12 +355,122 @@ export const validateJobUpdateRequest = [
     .withMessage('Enabled must be a boolean value')
 ];
 
+/**
+ * Validation for token registry lookup
+ */
+export const validateTokenLookup = [
+  param('network')
+    .isIn(['ethereum', 'polygon', 'arbitrum', 'optimism', 'base'])
+    .withMessage('Network must be one of: ethereum, polygon, arbitrum, optimism, base'),
+
+  param('address')
+    .matches(/^0x[a-fA-F0-9]{40}$/)
+    .withMessage('Address must be a valid contract address (0x + 40 hex characters)')
+];
+
+/**
+ * Validation for listing quarantined prices
+ */
+export const validateQuarantineQuery = [
+  query('token')
+    .optional()
+    .matches(/^(0x[a-fA-F0-9]{40}|[A-Za-z0-9]{2,10})$/)
+    .withMessage('Token must be a valid contract address (0x...) or symbol (2-10 chars)'),
+
+  query('network')
+    .optional()
+    .isIn(['ethereum', 'polygon', 'arbitrum', 'optimism', 'base'])
+    .withMessage('Network must be one of: ethereum, polygon, arbitrum, optimism, base'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('Limit must be between 1 and 500'),
+
+  query('offset')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Offset must be a non-negative integer')
+];
+
+/**
+ * Validation for quarantined price ID parameter
+ */
+export const validateQuarantineId = [
+  param('id')
+    .isMongoId()
+    .withMessage('ID must be a valid quarantined price ID')
+];
+
+/**
+ * Validation for cache invalidation
+ */
+export const validateCacheInvalidation = [
+  query('token')
+    .optional()
+    .matches(/^(0x[a-fA-F0-9]{40}|[A-Za-z0-9]{2,10})$/)
+    .withMessage('Token must be a valid contract address (0x...) or symbol (2-10 chars)'),
+
+  query('network')
+    .optional()
+    .isIn(['ethereum', 'polygon', 'arbitrum', 'optimism', 'base'])
+    .withMessage('Network must be one of: ethereum, polygon, arbitrum, optimism, base')
+];
+
+/**
+ * Validation for token registry entries
+ */
+export const validateTokenEntry = [
+  body('symbol')
+    .isString()
+    .matches(/^[A-Za-z0-9]{1,10}$/)
+    .withMessage('Symbol must be a valid alphanumeric string (1-10 characters)'),
+
+  body('name')
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be a string (1-100 characters)'),
+
+  body('address')
+    .matches(/^0x[a-fA-F0-9]{40}$/)
+    .withMessage('Address must be a valid contract address (0x + 40 hex characters)'),
+
+  body('decimals')
+    .isInt({ min: 0, max: 36 })
+    .toInt()
+    .withMessage('Decimals must be an integer between 0 and 36'),
+
+  body('network')
+    .isString()
+    .isIn(['ethereum', 'polygon', 'arbitrum', 'optimism', 'base'])
+    .withMessage('Network must be one of: ethereum, polygon, arbitrum, optimism, base'),
+
+  body('providerIds')
+    .optional()
+    .isObject()
+    .withMessage('Provider IDs must be an object keyed by provider name'),
+
+  body('providerIds.*')
+    .isString()
+    .withMessage('Provider IDs must be strings')
+];
+
 const validationMiddleware = {
   validatePriceRequest,
+  validateBatchPriceRequest,
   validateScheduleRequest,
   validatePriceHistoryRequest,
+  validateCandlesRequest,
+  validateCoverageRequest,
+  validateBlockRequest,
   validateJobId,
-  validateJobUpdateRequest
+  validateJobEventsRequest,
+  validateJobUpdateRequest,
+  validateTokenLookup,
+  validateTokenEntry,
+  validateQuarantineQuery,
+  validateQuarantineId,
+  validateCacheInvalidation
 };
 
 export default validationMiddleware;
@@ -0,0 +1,214 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import mongoService from '../services/mongodb';
+import outlierGuard from '../services/outlierGuard';
+import priceCache from '../services/priceCache';
+import logger from '../utils/logger';
+
+/**
+ * GET /api/admin/quarantine - List prices quarantined by the outlier guard, newest first
+ */
+export const getQuarantinedPrices = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    if (!mongoService.isReady()) {
+      res.status(503).json({
+        error: 'Database unavailable',
+        message: 'Quarantined prices cannot be read right now'
+      });
+      return;
+    }
+
+    const token = req.query.token as string | undefined;
+    const network = req.query.network as string | undefined;
+    const limit = parseInt(req.query.limit as string || '50');
+    const offset = parseInt(req.query.offset as string || '0');
+
+    const { prices, total } = await mongoService.getQuarantinedPrices({ token, network }, limit, offset);
+
+    res.json({
+      prices,
+      total,
+      limit,
+      offset
+    });
+  } catch (error) {
+    logger.error('Error in getQuarantinedPrices:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch quarantined prices'
+    });
+  }
+};
+
+/**
+ * POST /api/admin/quarantine/:id/accept - Store a quarantined price as a regular price
+ */
+export const acceptQuarantinedPrice = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    if (!mongoService.isReady()) {
+      res.status(503).json({
+        error: 'Database unavailable',
+        message: 'Quarantined prices cannot be accepted right now'
+      });
+      return;
+    }
+
+    const entry = await mongoService.getQuarantinedPrice(req.params.id);
+    if (!entry) {
+      res.status(404).json({
+        error: 'Quarantined price not found',
+        message: `No quarantined price with ID ${req.params.id}`
+      });
+      return;
+    }
+
+    const unixTimestamp = Math.floor(new Date(entry.timestamp).getTime() / 1000);
+    const existing = await mongoService.findPriceByTimestamp(entry.token, entry.network, unixTimestamp);
+    if (existing) {
+      res.status(409).json({
+        error: 'Price already exists',
+        message: `A ${existing.source} price is already stored for ${entry.token} on ${entry.network} at ${entry.timestamp}; delete the quarantined price instead`
+      });
+      return;
+    }
+
+    await outlierGuard.release(entry);
+
+    // Cached prices for the token may have been interpolated across the released price
+    await priceCache.invalidate(entry.token, entry.network);
+
+    res.json({
+      success: true,
+      message: `Price for ${entry.token} on ${entry.network} at ${entry.timestamp} accepted`,
+      price: entry
+    });
+  } catch (error) {
+    logger.error('Error in acceptQuarantinedPrice:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to accept quarantined price'
+    });
+  }
+};
+
+/**
+ * DELETE /api/admin/quarantine/:id - Discard a quarantined price
+ */
+export const deleteQuarantinedPrice = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    if (!mongoService.isReady()) {
+      res.status(503).json({
+        error: 'Database unavailable',
+        message: 'Quarantined prices cannot be deleted right now'
+      });
+      return;
+    }
+
+    const deleted = await mongoService.deleteQuarantinedPrice(req.params.id);
+    if (!deleted) {
+      res.status(404).json({
+        error: 'Quarantined price not found',
+        message: `No quarantined price with ID ${req.params.id}`
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: `Quarantined price ${req.params.id} deleted`
+    });
+  } catch (error) {
+    logger.error('Error in deleteQuarantinedPrice:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to delete quarantined price'
+    });
+  }
+};
+
+/**
+ * DELETE /api/admin/cache - Drop cached prices for a token and/or network, or all of them
+ */
+export const invalidateCache = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const token = req.query.token as string | undefined;
+    const network = req.query.network as string | undefined;
+    const deleted = await priceCache.invalidate(token, network);
+
+    res.json({
+      success: true,
+      message: `Cleared ${deleted} cached prices`,
+      token: token ?? null,
+      network: network ?? null,
+      deleted
+    });
+  } catch (error) {
+    logger.error('Error in invalidateCache:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to clear cached prices'
+    });
+  }
+};
+
+/**
+ * GET /api/admin/cache/stats - Price cache size and hit statistics
+ */
+export const getCacheStats = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const stats = await priceCache.getStats();
+    res.json(stats);
+  } catch (error) {
+    logger.error('Error in getCacheStats:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch cache statistics'
+    });
+  }
+};
+
+const adminController = {
+  getQuarantinedPrices,
+  acceptQuarantinedPrice,
+  deleteQuarantinedPrice,
+  invalidateCache,
+  getCacheStats
+};
+
+export default adminController;
@@ -0,0 +1,58 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import blockLookup from '../services/blockLookup';
+import logger from '../utils/logger';
+import { NetworkType } from '../types';
+
+/**
+ * GET /api/blocks/:network - Find the last block at or before a timestamp (default now)
+ */
+export const getBlockAtTimestamp = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const network = req.params.network as NetworkType;
+    const requested = req.query.timestamp ? new Date(req.query.timestamp as string) : new Date();
+    const timestamp = Math.floor(requested.getTime() / 1000);
+
+    logger.info(`Block lookup for ${requested.toISOString()} on ${network}`);
+
+    const block = await blockLookup.getBlockAtTimestamp(network, timestamp);
+    if (!block) {
+      res.status(404).json({
+        error: 'Block not found',
+        message: `No block at or before ${requested.toISOString()} on ${network}`
+      });
+      return;
+    }
+
+    res.json({
+      network,
+      timestamp: requested.toISOString(),
+      block: {
+        number: block.number,
+        timestamp: new Date(block.timestamp * 1000).toISOString()
+      }
+    });
+
+  } catch (error) {
+    logger.error('Error in getBlockAtTimestamp:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to resolve block'
+    });
+  }
+};
+
+const blocksController = {
+  getBlockAtTimestamp
+};
+
+export default blocksController;
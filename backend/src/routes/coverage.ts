@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import mongoService from '../services/mongodb';
+import { getInterpolationStats } from '../services/interpolation';
+import logger from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_COVERAGE_DAYS = 90;
+const MAX_COVERAGE_DAYS = 366;
+
+/**
+ * GET /api/coverage/:network/:token - Summarise stored price history and count prices per day
+ */
+export const getCoverage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    if (!mongoService.isReady()) {
+      res.status(503).json({
+        error: 'Database unavailable',
+        message: 'Price history cannot be inspected right now'
+      });
+      return;
+    }
+
+    const { network, token } = req.params;
+    const endDate = req.query.to ? new Date(req.query.to as string) : new Date();
+    const startDate = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(endDate.getTime() - DEFAULT_COVERAGE_DAYS * DAY_MS);
+
+    const dayCount = Math.ceil((endDate.getTime() - startDate.getTime()) / DAY_MS);
+    if (dayCount > MAX_COVERAGE_DAYS) {
+      res.status(400).json({
+        error: 'Range too large',
+        message: `Requested range spans ${dayCount} days; use a shorter range (max ${MAX_COVERAGE_DAYS})`
+      });
+      return;
+    }
+
+    logger.info(`Coverage request for ${token} on ${network} from ${startDate.toISOString()} to ${endDate.toISOString()}`);
+
+    const [stats, days] = await Promise.all([
+      getInterpolationStats(token, network),
+      mongoService.getDailyPriceCounts(token, network, startDate, endDate)
+    ]);
+
+    res.json({
+      token: token.toUpperCase(),
+      network,
+      dataPoints: stats.dataPoints,
+      earliest: stats.dateRange ? new Date(stats.dateRange.earliest * 1000).toISOString() : null,
+      latest: stats.dateRange ? new Date(stats.dateRange.latest * 1000).toISOString() : null,
+      averageGap: stats.averageGap,
+      maxGap: stats.maxGap,
+      interpolatedShare: stats.interpolatedShare,
+      period: `${startDate.toISOString()} to ${endDate.toISOString()}`,
+      days
+    });
+
+  } catch (error) {
+    logger.error('Error in getCoverage:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch data coverage'
+    });
+  }
+};
+
+const coverageController = {
+  getCoverage
+};
+
+export default coverageController;
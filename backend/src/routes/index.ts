@@ -1,23 +1,40 @@
 import express from 'express';
-import { getPrice, getPriceHistory, getSupportedNetworks } from './price';
+import { getPrice, getBatchPrices, getPriceHistory, getCandles, getSupportedNetworks } from './price';
 import { 
   scheduleJob, 
   getScheduledJobs, 
   getJobDetails, 
   updateJob, 
   deleteJob, 
-  runJob 
+  runJob,
+  streamJobEvents
 } from './schedule';
+import { getToken, addToken } from './tokens';
+import { getCoverage } from './coverage';
+import { getBlockAtTimestamp } from './blocks';
+import { getQuarantinedPrices, acceptQuarantinedPrice, deleteQuarantinedPrice, invalidateCache, getCacheStats } from './admin';
 import { 
   validatePriceRequest, 
   validatePriceQueryRequest,
+  validateBatchPriceRequest,
   validateScheduleRequest, 
   validatePriceHistoryRequest, 
+  validateCandlesRequest,
+  validateCoverageRequest,
+  validateBlockRequest,
   validateJobId, 
-  validateJobUpdateRequest 
+  validateJobEventsRequest,
+  validateJobUpdateRequest,
+  validateTokenLookup,
+  validateTokenEntry,
+  validateQuarantineQuery,
+  validateQuarantineId,
+  validateCacheInvalidation
 } from '../middleware/validation';
-import { priceCacheMiddleware, setCacheMiddleware } from '../middleware/cache';
-import rateLimit from 'express-rate-limit';
+import { priceCacheMiddleware } from '../middleware/cache';
+import { requireAdmin } from '../middleware/auth';
+import rateLimit, { MemoryStore } from 'express-rate-limit';
+import { validationResult } from 'express-validator';
 
 const router = express.Router();
 
@@ -30,14 +47,50 @@ const generalLimiter = rateLimit({
   legacyHeaders: false,
 });
 
+const PRICE_LIMIT_MAX = 30;
+const priceLimiterStore = new MemoryStore();
+
 const priceLimiter = rateLimit({
   windowMs: 1 * 60 * 1000, // 1 minute
-  max: 30, // limit each IP to 30 price requests per minute
+  max: PRICE_LIMIT_MAX, // limit each IP to 30 price requests per minute
   message: 'Too many price requests from this IP, please try again later.',
   standardHeaders: true,
   legacyHeaders: false,
+  store: priceLimiterStore,
 });
 
+// Counts every batch item against the price limiter (priceLimiter already counted the first one)
+// Invalid batches are left to the handler to reject and only count once.
+const batchItemLimiter = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!validationResult(req).isEmpty()) {
+    next();
+    return;
+  }
+
+  const itemCount = Array.isArray(req.body?.items) ? req.body.items.length : 0;
+  const key = req.ip || 'unknown';
+  let totalHits = req.rateLimit?.used || 0;
+
+  for (let i = 1; i < itemCount; i++) {
+    ({ totalHits } = await priceLimiterStore.increment(key));
+  }
+
+  if (totalHits > PRICE_LIMIT_MAX) {
+    // The batch is refused as a whole, so its items give their allowance back
+    for (let i = 1; i < itemCount; i++) {
+      await priceLimiterStore.decrement(key);
+    }
+
+    res.status(429).json({
+      error: 'Too many price requests from this IP, please try again later.',
+      message: `Batch of ${itemCount} items exceeds the remaining price request allowance`
+    });
+    return;
+  }
+
+  next();
+};
+
 // Apply general rate limiting to all routes
 router.use(generalLimiter);
 
@@ -55,7 +108,6 @@ router.get('/price',
   priceLimiter,
   validatePriceQueryRequest,
   priceCacheMiddleware,
-  setCacheMiddleware(),
   getPrice
 );
 
@@ -63,20 +115,44 @@ router.post('/price',
   priceLimiter,
   validatePriceRequest,
   priceCacheMiddleware,
-  setCacheMiddleware(),
   getPrice
 );
 
+router.post('/price/batch',
+  priceLimiter,
+  validateBatchPriceRequest,
+  batchItemLimiter,
+  getBatchPrices
+);
+
 router.get('/price/history',
   priceLimiter,
   validatePriceHistoryRequest,
   getPriceHistory
 );
 
+router.get('/price/candles',
+  priceLimiter,
+  validateCandlesRequest,
+  getCandles
+);
+
 router.get('/price/supported-networks',
   getSupportedNetworks
 );
 
+// Data coverage endpoints
+router.get('/coverage/:network/:token',
+  validateCoverageRequest,
+  getCoverage
+);
+
+// Block lookup endpoints
+router.get('/blocks/:network',
+  validateBlockRequest,
+  getBlockAtTimestamp
+);
+
 // Schedule endpoints
 router.post('/schedule',
   validateScheduleRequest,
@@ -108,4 +184,51 @@ router.post('/schedule/:jobId/run',
   runJob
 );
 
+router.get('/schedule/:jobId/events',
+  validateJobEventsRequest,
+  streamJobEvents
+);
+
+// Token registry endpoints
+router.get('/tokens/:network/:address',
+  validateTokenLookup,
+  getToken
+);
+
+// Admin endpoints
+router.post('/admin/tokens',
+  requireAdmin,
+  validateTokenEntry,
+  addToken
+);
+
+router.get('/admin/quarantine',
+  requireAdmin,
+  validateQuarantineQuery,
+  getQuarantinedPrices
+);
+
+router.post('/admin/quarantine/:id/accept',
+  requireAdmin,
+  validateQuarantineId,
+  acceptQuarantinedPrice
+);
+
+router.delete('/admin/quarantine/:id',
+  requireAdmin,
+  validateQuarantineId,
+  deleteQuarantinedPrice
+);
+
+router.delete('/admin/cache',
+  requireAdmin,
+  validateCacheInvalidation,
+  invalidateCache
+);
+
+router.get('/admin/cache/stats',
+  requireAdmin,
+  getCacheStats
+);
+
 export default router;
@@ -2,9 +2,17 @@ import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import alchemyService from '../services/alchemy';
 import mongoService from '../services/mongodb';
-import { interpolatePrice } from '../services/interpolation';
+import priceCache from '../services/priceCache';
+import { resolvePrice } from '../services/priceResolver';
+import { buildPriceHistory } from '../services/priceHistory';
 import logger from '../utils/logger';
-import { PriceRequest, PriceResponse, NetworkType } from '../types';
+import { PriceRequest, PriceResponse, NetworkType, BatchPriceResult, InterpolationMethod, ExtrapolationMode, AggregationMethod } from '../types';
+
+// Maximum number of upstream resolutions running at once for a batch
+const BATCH_CONCURRENCY = 5;
+
+// Maximum number of points returned by a single history request
+const MAX_HISTORY_POINTS = 10000;
 
 /**
  * GET /api/price - Get token price
@@ -26,6 +34,12 @@ export const getPrice = async (req: Request, res: Response): Promise<void> => {
     const token = req.body.token || req.query.token as string;
     const network = req.body.network || req.query.network as string;
     const timestamp = req.body.timestamp || req.query.timestamp as string || new Date().toISOString();
+    const method = (req.body.method || req.query.method || 'linear') as InterpolationMethod;
+    const extrapolate = (req.body.extrapolate || req.query.extrapolate) as ExtrapolationMode | undefined;
+    const maxStaleness = req.body.maxStaleness ?? req.query.maxStaleness;
+    const minConfidence = req.body.minConfidence ?? req.query.minConfidence;
+    const aggregate = String(req.body.aggregate ?? req.query.aggregate) === 'true';
+    const aggregation = (req.body.aggregation || req.query.aggregation || 'median') as AggregationMethod;
 
     logger.info(`Price request for ${token} on ${network} at ${timestamp}`);
 
@@ -68,102 +82,162 @@ export const getPrice = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    const unixTimestamp = Math.floor(timestampDate.getTime() / 1000);
-
-    // Step 1: Check if we already have this exact price in MongoDB
-    const existingPrice = await mongoService.findPriceByTimestamp(token, network, unixTimestamp);
-    if (existingPrice) {
-      logger.info(`Found existing price in MongoDB: ${token} = $${existingPrice.price}`);
-      
-      const response: PriceResponse = {
-        price: existingPrice.price,
-        source: existingPrice.source,
-        timestamp: existingPrice.date,
-        token: existingPrice.token,
-        network: existingPrice.network
-      };
-      
+    const options = {
+      method,
+      extrapolate,
+      maxStaleness: maxStaleness !== undefined ? parseInt(maxStaleness) : undefined,
+      aggregate: aggregate ? aggregation : undefined
+    };
+
+    // Concurrent identical requests share one lookup, which also caches the price
+    const cacheRequest = { token, network, timestamp, ...options, aggregation: options.aggregate };
+    const cacheKey = req.cacheKey || priceCache.getKey(cacheRequest);
+    const response = await priceCache.coalesce(
+      cacheKey,
+      () => resolvePrice(token, network as NetworkType, timestamp, options),
+      priceCache.getFlightKey(cacheRequest)
+    );
+
+    // Prices of unknown quality cannot satisfy a minimum confidence
+    const confidence = response?.confidence ?? 0;
+    if (response && minConfidence !== undefined && confidence < parseFloat(minConfidence)) {
+      res.status(422).json({
+        error: 'Confidence too low',
+        message: `The best available price for ${token} on ${network} at ${timestamp} has confidence ${confidence}, below the requested ${minConfidence}.`,
+        confidence
+      });
+      return;
+    }
+
+    if (response) {
       res.json(response);
       return;
     }
 
-    // Step 2: Try to fetch from Alchemy
-    const priceData = await alchemyService.getTokenPrice(token, network as NetworkType, timestamp);
-
-    if (priceData) {
-      // Save to MongoDB for future use
-      try {
-        await mongoService.createPrice({
-          token: token.toUpperCase(),
-          network: network.toLowerCase(),
-          date: timestamp,
-          timestamp: unixTimestamp,
-          price: priceData.price,
-          source: 'alchemy'
-        });
-        logger.info(`Saved Alchemy price to MongoDB: ${token} = $${priceData.price}`);
-      } catch (error) {
-        logger.warn('Failed to save Alchemy price to MongoDB:', error);
-      }
+    // No price data available
+    res.status(404).json({
+      error: 'Price data not found',
+      message: `No price data available for ${token} on ${network} at ${timestamp}. Neither the price providers nor interpolation could provide a price.`
+    });
 
-      const response: PriceResponse = {
-        price: priceData.price,
-        source: 'alchemy',
-        timestamp: priceData.timestamp,
-        token,
-        network
-      };
+  } catch (error) {
+    logger.error('Error in getPrice:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch price data'
+    });
+  }
+};
 
-      logger.info(`Price fetched from Alchemy: ${token} = $${priceData.price}`);
-      res.json(response);
+/**
+ * POST /api/price/batch - Get prices for many (token, network, timestamp) tuples
+ */
+export const getBatchPrices = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
       return;
     }
 
-    // Step 3: Try interpolation if Alchemy fails
-    logger.info(`Alchemy failed, attempting interpolation for ${token} on ${network}`);
-    
-    const interpolationResult = await interpolatePrice(token, network, unixTimestamp);
-    
-    if (interpolationResult) {
-      // Save interpolated price to MongoDB
-      try {
-        await mongoService.createPrice({
-          token: token.toUpperCase(),
-          network: network.toLowerCase(),
-          date: timestamp,
-          timestamp: unixTimestamp,
-          price: interpolationResult.price,
-          source: 'interpolated'
-        });
-        logger.info(`Saved interpolated price to MongoDB: ${token} = $${interpolationResult.price}`);
-      } catch (error) {
-        logger.warn('Failed to save interpolated price to MongoDB:', error);
+    const items: Partial<PriceRequest>[] = req.body.items;
+    const now = new Date().toISOString();
+    const requests: PriceRequest[] = items.map(item => ({
+      token: item.token as string,
+      network: item.network as string,
+      timestamp: item.timestamp || now
+    }));
+
+    // Items for the same token, network and timestamp share a single lookup
+    const itemKeys: Array<string | null> = requests.map(request =>
+      validatePriceItem(request) ? null : getBatchItemKey(request)
+    );
+
+    const uniqueRequests: Map<string, PriceRequest> = new Map();
+    itemKeys.forEach((key, index) => {
+      if (key && !uniqueRequests.has(key)) {
+        uniqueRequests.set(key, requests[index]);
       }
+    });
 
-      const response: PriceResponse = {
-        price: interpolationResult.price,
-        source: 'interpolated',
-        timestamp: timestamp,
-        token,
-        network
+    logger.info(`Batch price request for ${items.length} items (${uniqueRequests.size} unique)`);
+
+    // Resolve unique tuples with bounded concurrency
+    const resolved: Map<string, PriceResponse | null | Error> = new Map();
+    const queue = Array.from(uniqueRequests.entries());
+    const runners = Array.from({ length: Math.min(BATCH_CONCURRENCY, queue.length) }, async () => {
+      for (let entry = queue.shift(); entry; entry = queue.shift()) {
+        const [key, request] = entry;
+        try {
+          resolved.set(key, await resolveCachedPrice(request, priceCache.getKey(request)));
+        } catch (error) {
+          resolved.set(key, error instanceof Error ? error : new Error('Unknown error'));
+        }
+      }
+    });
+    await Promise.all(runners);
+
+    const results: BatchPriceResult[] = requests.map((request, index) => {
+      const key = itemKeys[index];
+
+      if (!key) {
+        return {
+          index,
+          request,
+          success: false,
+          error: 'Invalid request',
+          message: validatePriceItem(request) as string
+        };
+      }
+
+      const outcome = resolved.get(key);
+
+      if (outcome instanceof Error) {
+        logger.warn(`Batch item ${index} failed:`, outcome);
+        return {
+          index,
+          request,
+          success: false,
+          error: 'Internal server error',
+          message: 'Failed to fetch price data'
+        };
+      }
+
+      if (!outcome) {
+        return {
+          index,
+          request,
+          success: false,
+          error: 'Price data not found',
+          message: `No price data available for ${request.token} on ${request.network} at ${request.timestamp}`
+        };
+      }
+
+      return {
+        index,
+        request,
+        success: true,
+        data: { ...outcome, token: request.token, network: request.network, timestamp: request.timestamp }
       };
+    });
 
-      logger.info(`Price interpolated: ${token} = $${interpolationResult.price} (confidence: ${interpolationResult.confidence.toFixed(2)})`);
-      res.json(response);
-      return;
-    }
+    const succeeded = results.filter(result => result.success).length;
 
-    // Step 4: No price data available
-    res.status(404).json({
-      error: 'Price data not found',
-      message: `No price data available for ${token} on ${network} at ${timestamp}. Neither Alchemy nor interpolation could provide a price.`
+    res.json({
+      results,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded
     });
 
   } catch (error) {
-    logger.error('Error in getPrice:', error);
+    logger.error('Error in getBatchPrices:', error);
     res.status(500).json({
       error: 'Internal server error',
-      message: 'Failed to fetch price data'
+      message: 'Failed to fetch batch price data'
     });
   }
 };
@@ -173,7 +247,16 @@ export const getPrice = async (req: Request, res: Response): Promise<void> => {
  */
 export const getPriceHistory = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { token, network, from, to, interval = '1h' } = req.query;
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { token, network, from, to, interval = '1h', backfill } = req.query;
 
     if (!token || !network || !from || !to) {
       res.status(400).json({
@@ -185,44 +268,93 @@ export const getPriceHistory = async (req: Request, res: Response): Promise<void
 
     logger.info(`Price history request for ${token} on ${network} from ${from} to ${to}`);
 
-    // This is a simplified implementation
-    // In a real application, you would fetch historical data from your database
-    // or make multiple API calls to get historical prices
+    const startDate = new Date(from as string);
+    const endDate = new Date(to as string);
+    const intervalMs = getIntervalMs(interval as string);
+
+    const pointCount = Math.floor((endDate.getTime() - startDate.getTime()) / intervalMs) + 1;
+    if (pointCount > MAX_HISTORY_POINTS) {
+      res.status(400).json({
+        error: 'Range too large',
+        message: `Requested range yields ${pointCount} points; use a larger interval or a shorter range (max ${MAX_HISTORY_POINTS})`
+      });
+      return;
+    }
+
+    const history = await buildPriceHistory({
+      token: token as string,
+      network: network as NetworkType,
+      from: startDate,
+      to: endDate,
+      interval: interval as string,
+      intervalMs,
+      backfill: backfill === 'true'
+    });
+
+    res.json(history);
+
+  } catch (error) {
+    logger.error('Error in getPriceHistory:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch price history'
+    });
+  }
+};
+
+/**
+ * GET /api/price/candles - Get OHLC candles for a token
+ */
+export const getCandles = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { token, network, from, to, interval = '1h' } = req.query;
 
-    const mockHistory = [];
     const startDate = new Date(from as string);
     const endDate = new Date(to as string);
     const intervalMs = getIntervalMs(interval as string);
 
-    for (let date = startDate; date <= endDate; date = new Date(date.getTime() + intervalMs)) {
-      const priceData = await alchemyService.getTokenPrice(
-        token as string,
-        network as NetworkType,
-        date.toISOString()
-      );
-
-      if (priceData) {
-        mockHistory.push({
-          timestamp: date.toISOString(),
-          price: priceData.price,
-          source: 'alchemy'
-        });
-      }
+    const bucketCount = Math.floor((endDate.getTime() - startDate.getTime()) / intervalMs) + 1;
+    if (bucketCount > MAX_HISTORY_POINTS) {
+      res.status(400).json({
+        error: 'Range too large',
+        message: `Requested range yields ${bucketCount} candles; use a larger interval or a shorter range (max ${MAX_HISTORY_POINTS})`
+      });
+      return;
     }
 
+    logger.info(`Candles request for ${token} on ${network} from ${from} to ${to} (${interval})`);
+
+    const candles = await mongoService.getCandles(
+      token as string,
+      network as string,
+      startDate,
+      endDate,
+      intervalMs / 1000
+    );
+
     res.json({
       token,
       network,
       period: `${from} to ${to}`,
       interval,
-      prices: mockHistory
+      candles,
+      total: candles.length
     });
 
   } catch (error) {
-    logger.error('Error in getPriceHistory:', error);
+    logger.error('Error in getCandles:', error);
     res.status(500).json({
       error: 'Internal server error',
-      message: 'Failed to fetch price history'
+      message: 'Failed to fetch candles'
     });
   }
 };
@@ -246,6 +378,59 @@ export const getSupportedNetworks = async (req: Request, res: Response): Promise
   }
 };
 
+/**
+ * Helper function to validate a single batch item, returning an error message if invalid
+ */
+function validatePriceItem(request: PriceRequest): string | null {
+  const { token, network, timestamp } = request;
+
+  if (typeof token !== 'string' || (!alchemyService.isValidTokenAddress(token) && !/^[A-Z0-9]{2,10}$/i.test(token))) {
+    return 'Token must be a valid contract address (0x...) or symbol (BTC, ETH)';
+  }
+
+  if (!alchemyService.getSupportedNetworks().includes(network as NetworkType)) {
+    return `Network must be one of: ${alchemyService.getSupportedNetworks().join(', ')}`;
+  }
+
+  const timestampDate = new Date(timestamp);
+  if (typeof timestamp !== 'string' || isNaN(timestampDate.getTime())) {
+    return 'Timestamp must be a valid ISO 8601 date string';
+  }
+
+  if (timestampDate > new Date()) {
+    return 'Timestamp cannot be in the future';
+  }
+
+  return null;
+}
+
+/**
+ * Key identifying a batch item: its token, network and exact timestamp
+ */
+function getBatchItemKey(request: PriceRequest): string {
+  const time = new Date(request.timestamp).getTime();
+  return `${request.token.toLowerCase()}:${request.network.toLowerCase()}:${time}`;
+}
+
+/**
+ * Helper function to resolve a price through the Redis cache, using the same
+ * cache keys and lookup coalescing as the single price endpoint
+ */
+async function resolveCachedPrice(request: PriceRequest, cacheKey: string): Promise<PriceResponse | null> {
+  const { token, network, timestamp } = request;
+
+  const cachedData = await priceCache.get(cacheKey);
+  if (cachedData) {
+    return priceCache.toResponse(cachedData);
+  }
+
+  return priceCache.coalesce(
+    cacheKey,
+    () => resolvePrice(token, network as NetworkType, timestamp),
+    priceCache.getFlightKey(request)
+  );
+}
+
 /**
  * Helper function to convert interval string to milliseconds
  */
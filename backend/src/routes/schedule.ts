@@ -1,12 +1,14 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import { v4 as uuidv4 } from 'uuid';
-import bullMQService from '../services/bullmq';
+import bullMQService, { createScheduledRunJobId, PriceHistoryJobEvent } from '../services/bullmq';
+import mongoService, { isDuplicateKeyError } from '../services/mongodb';
+import { getNextRunTimes, PREVIEW_RUN_COUNT } from '../utils/cron';
 import logger from '../utils/logger';
 import { ScheduleRequest, ScheduleResponse, JobData } from '../types';
 
-// In-memory job storage (in production, use a proper database)
-const scheduledJobs: Map<string, JobData> = new Map();
+// Comment sent on idle event streams so proxies keep the connection open
+const SSE_HEARTBEAT_INTERVAL = 15000;
 
 /**
  * POST /api/schedule - Schedule a price history job
@@ -23,48 +25,70 @@ export const scheduleJob = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    const { token, network, interval = '0 0 * * *', enabled = true }: ScheduleRequest = req.body;
-
-    logger.info(`Schedule request for ${token} on ${network} with interval ${interval}`);
-
-    // Check if job already exists
-    const existingJobId = findExistingJob(token, network);
-    if (existingJobId) {
-      res.status(409).json({
-        error: 'Job already exists',
-        message: `A job for ${token} on ${network} already exists`,
-        existingJobId
-      });
+    if (!ensureStorage(res)) {
       return;
     }
 
-    // Create new job
+    const { token, network, interval = '0 0 * * *', timezone, enabled = true }: ScheduleRequest = req.body;
+
+    logger.info(`Schedule request for ${token} on ${network} with interval ${interval} (${timezone || 'UTC'})`);
+
+    const nextRuns = getNextRunTimes(interval, PREVIEW_RUN_COUNT, new Date(), timezone);
+
+    // Create new job; (token, network) uniqueness is enforced by the database
     const jobId = uuidv4();
-    const now = new Date().toISOString();
-    
-    const jobData: JobData = {
-      id: jobId,
-      token,
-      network,
-      interval,
-      enabled,
-      createdAt: now,
-      lastRun: undefined,
-      nextRun: getNextRunTime(interval)
-    };
 
-    // Store job data
-    scheduledJobs.set(jobId, jobData);
+    let jobData: JobData | null;
+    try {
+      jobData = await mongoService.createScheduledJob({
+        id: jobId,
+        token,
+        network,
+        interval,
+        timezone,
+        enabled,
+        lastRun: undefined,
+        nextRun: nextRuns[0]
+      });
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        const existingJob = await mongoService.findScheduledJobByToken(token, network);
+        res.status(409).json({
+          error: 'Job already exists',
+          message: `A job for ${token} on ${network} already exists`,
+          existingJobId: existingJob?.id
+        });
+        return;
+      }
+      throw error;
+    }
 
-    // Schedule the job in BullMQ
+    // Storage went away since the check above
+    if (!jobData) {
+      res.status(503).json({
+        error: 'Service unavailable',
+        message: 'Job storage is not available'
+      });
+      return;
+    }
+
+    // Schedule the job in BullMQ: an initial run now, then repeats on the cron interval
+    let queueResult: { jobId: string; status: 'queued' } | null = null;
     if (enabled) {
-      const queueResult = await bullMQService.addPriceHistoryJob({
+      queueResult = await bullMQService.addPriceHistoryJob({
+        token: token.toUpperCase(),
+        network: network.toLowerCase(),
+        requestId: jobId,
+        scheduleId: jobId
+      }, { jobId: createScheduledRunJobId(jobId) });
+
+      const schedulerResult = await bullMQService.upsertJobScheduler(jobId, interval, {
         token: token.toUpperCase(),
         network: network.toLowerCase(),
         requestId: jobId
-      });
+      }, timezone);
 
-      if (queueResult) {
+      if (queueResult && schedulerResult) {
         logger.info(`BullMQ job scheduled for ${token} on ${network}`);
       } else {
         logger.warn('Failed to queue job in BullMQ, but job still scheduled');
@@ -76,7 +100,9 @@ export const scheduleJob = async (req: Request, res: Response): Promise<void> =>
       message: `Job scheduled successfully for ${token} on ${network}`,
       jobId,
       estimatedTime: 5000,
-      scheduledAt: now
+      scheduledAt: jobData.createdAt,
+      nextRuns,
+      queueJobId: queueResult?.jobId
     };
 
     logger.info(`Job scheduled successfully: ${jobId}`);
@@ -96,8 +122,12 @@ export const scheduleJob = async (req: Request, res: Response): Promise<void> =>
  */
 export const getScheduledJobs = async (req: Request, res: Response): Promise<void> => {
   try {
-    const jobs = Array.from(scheduledJobs.values());
-    
+    if (!ensureStorage(res)) {
+      return;
+    }
+
+    const jobs = await mongoService.getScheduledJobs();
+
     res.json({
       jobs,
       total: jobs.length,
@@ -117,9 +147,13 @@ export const getScheduledJobs = async (req: Request, res: Response): Promise<voi
  */
 export const getJobDetails = async (req: Request, res: Response): Promise<void> => {
   try {
+    if (!ensureStorage(res)) {
+      return;
+    }
+
     const { jobId } = req.params;
-    
-    const job = scheduledJobs.get(jobId);
+
+    const job = await mongoService.getScheduledJob(jobId);
     if (!job) {
       res.status(404).json({
         error: 'Job not found',
@@ -133,6 +167,7 @@ export const getJobDetails = async (req: Request, res: Response): Promise<void>
 
     res.json({
       ...job,
+      nextRuns: job.enabled ? getNextRunTimes(job.interval, PREVIEW_RUN_COUNT, new Date(), job.timezone) : [],
       queueStatus: queueStatus || 'Not available'
     });
   } catch (error) {
@@ -158,11 +193,15 @@ export const updateJob = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    if (!ensureStorage(res)) {
+      return;
+    }
+
     const { jobId } = req.params;
     const { enabled } = req.body;
 
-    const job = scheduledJobs.get(jobId);
-    if (!job) {
+    const existingJob = await mongoService.getScheduledJob(jobId);
+    if (!existingJob) {
       res.status(404).json({
         error: 'Job not found',
         message: `No job found with ID: ${jobId}`
@@ -170,26 +209,34 @@ export const updateJob = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Update job
-    job.enabled = enabled;
-    job.lastRun = new Date().toISOString();
-    scheduledJobs.set(jobId, job);
-
-    // If enabling, add to BullMQ queue
+    // Enabling adds the repeatable job scheduler, disabling removes it
     if (enabled) {
-      await bullMQService.addPriceHistoryJob({
-        token: job.token.toUpperCase(),
-        network: job.network.toLowerCase(),
+      await bullMQService.upsertJobScheduler(jobId, existingJob.interval, {
+        token: existingJob.token.toUpperCase(),
+        network: existingJob.network.toLowerCase(),
         requestId: jobId
-      });
+      }, existingJob.timezone);
+    } else {
+      await bullMQService.removeJobScheduler(jobId);
     }
 
+    const nextRuns = enabled
+      ? getNextRunTimes(existingJob.interval, PREVIEW_RUN_COUNT, new Date(), existingJob.timezone)
+      : [];
+
+    // Update job
+    const job = await mongoService.updateScheduledJob(jobId, {
+      enabled,
+      nextRun: nextRuns[0] ?? null
+    });
+
     logger.info(`Job ${jobId} updated: enabled=${enabled}`);
 
     res.json({
       success: true,
       message: 'Job updated successfully',
-      job
+      job,
+      nextRuns
     });
   } catch (error) {
     logger.error('Error in updateJob:', error);
@@ -205,10 +252,15 @@ export const updateJob = async (req: Request, res: Response): Promise<void> => {
  */
 export const deleteJob = async (req: Request, res: Response): Promise<void> => {
   try {
+    if (!ensureStorage(res)) {
+      return;
+    }
+
     const { jobId } = req.params;
 
-    const job = scheduledJobs.get(jobId);
-    if (!job) {
+    // Remove from storage
+    const deleted = await mongoService.deleteScheduledJob(jobId);
+    if (!deleted) {
       res.status(404).json({
         error: 'Job not found',
         message: `No job found with ID: ${jobId}`
@@ -216,8 +268,8 @@ export const deleteJob = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Remove from storage
-    scheduledJobs.delete(jobId);
+    // Stop future repeats
+    await bullMQService.removeJobScheduler(jobId);
 
     logger.info(`Job ${jobId} deleted`);
 
@@ -239,9 +291,13 @@ export const deleteJob = async (req: Request, res: Response): Promise<void> => {
  */
 export const runJob = async (req: Request, res: Response): Promise<void> => {
   try {
+    if (!ensureStorage(res)) {
+      return;
+    }
+
     const { jobId } = req.params;
 
-    const job = scheduledJobs.get(jobId);
+    const job = await mongoService.getScheduledJob(jobId);
     if (!job) {
       res.status(404).json({
         error: 'Job not found',
@@ -262,14 +318,12 @@ export const runJob = async (req: Request, res: Response): Promise<void> => {
     const queueResult = await bullMQService.addPriceHistoryJob({
       token: job.token.toUpperCase(),
       network: job.network.toLowerCase(),
-      requestId: `manual-${jobId}-${Date.now()}`
-    });
+      requestId: `manual-${jobId}-${Date.now()}`,
+      scheduleId: jobId
+    }, { jobId: createScheduledRunJobId(jobId) });
 
     if (queueResult) {
-      // Update last run time
-      job.lastRun = new Date().toISOString();
-      scheduledJobs.set(jobId, job);
-
+      // The worker records lastRun once the run completes
       logger.info(`Job ${jobId} executed manually`);
 
       res.json({
@@ -294,26 +348,134 @@ export const runJob = async (req: Request, res: Response): Promise<void> => {
 };
 
 /**
- * Helper function to find existing job by token and network
+ * GET /api/schedule/:jobId/events - Stream progress of the job's runs as Server-Sent Events
  */
-function findExistingJob(token: string, network: string): string | null {
-  for (const [jobId, job] of Array.from(scheduledJobs.entries())) {
-    if (job.token.toLowerCase() === token.toLowerCase() && 
-        job.network.toLowerCase() === network.toLowerCase()) {
-      return jobId;
+export const streamJobEvents = async (req: Request, res: Response): Promise<void> => {
+  let unsubscribe: (() => void) | null = null;
+  let heartbeat: NodeJS.Timeout | undefined;
+
+  const close = (): void => {
+    clearInterval(heartbeat);
+    unsubscribe?.();
+    unsubscribe = null;
+  };
+
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    if (!ensureStorage(res)) {
+      return;
+    }
+
+    const { jobId } = req.params;
+    const runId = req.query.runId as string | undefined;
+
+    const job = await mongoService.getScheduledJob(jobId);
+    if (!job) {
+      res.status(404).json({
+        error: 'Job not found',
+        message: `No job found with ID: ${jobId}`
+      });
+      return;
+    }
+
+    const pending: PriceHistoryJobEvent[] = [];
+    let send = (event: PriceHistoryJobEvent): void => {
+      pending.push(event);
+    };
+
+    unsubscribe = bullMQService.subscribeToJobEvents(jobId, event => send(event));
+    if (!unsubscribe) {
+      res.status(503).json({
+        error: 'Service unavailable',
+        message: 'Job queue is not available'
+      });
+      return;
+    }
+
+    // The client may go away at any point from here, including while the run status is looked up
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+      close();
+      logger.debug(`Event stream for job ${jobId} closed`);
+    });
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    // Compression buffers output, so every event is flushed explicitly
+    const write = (chunk: string): void => {
+      res.write(chunk);
+      res.flush();
+    };
+
+    send = (event: PriceHistoryJobEvent): void => {
+      write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    write('retry: 3000\n\n');
+
+    // Report where a known run already is, since it may have started before the stream opened
+    if (runId) {
+      const status = await bullMQService.getJobStatus(runId);
+      if (status?.status === 'completed' && status.result) {
+        send({ type: 'completed', jobId: runId, result: status.result });
+      } else if (status?.status === 'failed') {
+        send({ type: 'failed', jobId: runId, error: status.error || 'Job failed' });
+      } else if (status?.progress !== undefined) {
+        send({ type: 'progress', jobId: runId, progress: status.progress });
+      }
+    }
+
+    if (closed) {
+      return;
+    }
+
+    pending.splice(0).forEach(send);
+
+    heartbeat = setInterval(() => write(': keep-alive\n\n'), SSE_HEARTBEAT_INTERVAL);
+
+    logger.info(`Event stream opened for job ${jobId}`);
+  } catch (error) {
+    logger.error('Error in streamJobEvents:', error);
+    close();
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to stream job events'
+      });
+    } else {
+      res.end();
     }
   }
-  return null;
-}
+};
 
 /**
- * Helper function to calculate next run time
- * In a real implementation, this would parse the cron expression
+ * Helper function to reject requests while job storage is unavailable
  */
-function getNextRunTime(interval: string): string {
-  // For demo purposes, calculate next run as 5 minutes from now
-  const nextRun = new Date(Date.now() + 5 * 60 * 1000);
-  return nextRun.toISOString();
+function ensureStorage(res: Response): boolean {
+  if (mongoService.isReady()) {
+    return true;
+  }
+
+  res.status(503).json({
+    error: 'Service unavailable',
+    message: 'Job storage is not available'
+  });
+  return false;
 }
 
 const scheduleController = {
@@ -322,7 +484,8 @@ const scheduleController = {
   getJobDetails,
   updateJob,
   deleteJob,
-  runJob
+  runJob,
+  streamJobEvents
 };
 
 export default scheduleController;
@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import tokenRegistry from '../services/tokenRegistry';
+import mongoService from '../services/mongodb';
+import logger from '../utils/logger';
+import { TokenInfo } from '../types';
+
+/**
+ * GET /api/tokens/:network/:address - Look up a token registry entry
+ */
+export const getToken = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    const { network, address } = req.params;
+
+    const token = tokenRegistry.findByAddress(network, address);
+    if (!token) {
+      res.status(404).json({
+        error: 'Token not found',
+        message: `No registry entry for ${address} on ${network}`
+      });
+      return;
+    }
+
+    res.json({
+      token,
+      listVersion: tokenRegistry.getListVersion()
+    });
+  } catch (error) {
+    logger.error('Error in getToken:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to look up token'
+    });
+  }
+};
+
+/**
+ * POST /api/admin/tokens - Add or replace a token registry entry
+ */
+export const addToken = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: errors.array()
+      });
+      return;
+    }
+
+    if (!mongoService.isReady()) {
+      res.status(503).json({
+        error: 'Database unavailable',
+        message: 'Token registry entries cannot be persisted right now'
+      });
+      return;
+    }
+
+    const { symbol, name, address, decimals, network, providerIds = {} }: TokenInfo = req.body;
+
+    const token = await tokenRegistry.addToken({
+      symbol,
+      name,
+      address,
+      decimals,
+      network,
+      providerIds
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Token ${token.symbol} registered on ${token.network}`,
+      token
+    });
+  } catch (error) {
+    logger.error('Error in addToken:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to register token'
+    });
+  }
+};
+
+const tokenController = {
+  getToken,
+  addToken
+};
+
+export default tokenController;
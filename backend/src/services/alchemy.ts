@@ -1,11 +1,12 @@
-import { Alchemy, Network, AssetTransfersCategory } from 'alchemy-sdk';
-import axios from 'axios';
+import { Alchemy, Network } from 'alchemy-sdk';
+import alchemyClients from './alchemyClients';
+import priceProviderRegistry from './providers';
 import logger from '../utils/logger';
-import { AlchemyPriceData, NetworkType } from '../types';
+import { median, trimmedMean } from '../utils/statistics';
+import { AggregatedPriceData, AggregationMethod, AlchemyPriceData, NetworkType, PriceQuote } from '../types';
 
 class AlchemyService {
   private alchemy: Alchemy;
-  private networkMap: Map<NetworkType, Network>;
 
   constructor() {
     const config = {
@@ -15,15 +16,6 @@ class AlchemyService {
 
     this.alchemy = new Alchemy(config);
 
-    // Map our network types to Alchemy networks
-    this.networkMap = new Map([
-      ['ethereum', Network.ETH_MAINNET],
-      ['polygon', Network.MATIC_MAINNET],
-      ['arbitrum', Network.ARB_MAINNET],
-      ['optimism', Network.OPT_MAINNET],
-      ['base', Network.BASE_MAINNET]
-    ]);
-
     logger.info('Alchemy service initialized');
   }
 
@@ -56,125 +48,103 @@ class AlchemyService {
   }
 
   /**
-   * Get token price from Alchemy
-   * Note: This is a simplified implementation. In reality, you might need to:
-   * 1. Use historical price APIs
-   * 2. Handle token address resolution
-   * 3. Implement proper error handling for different token types
+   * Get token price from the registered price providers
+   * Providers are tried in priority order and the first price found wins;
+   * the provider name is returned as the price source
    */
   async getTokenPrice(token: string, network: NetworkType, timestamp: string): Promise<AlchemyPriceData | null> {
     try {
       logger.info(`Fetching price for ${token} on ${network} at ${timestamp}`);
 
-      // Switch to the appropriate network
-      const alchemyNetwork = this.networkMap.get(network);
-      if (!alchemyNetwork) {
+      if (!alchemyClients.has(network)) {
         logger.error(`Unsupported network: ${network}`);
         return null;
       }
 
-      // Create network-specific Alchemy instance
-      const networkAlchemy = new Alchemy({
-        apiKey: process.env.ALCHEMY_API_KEY || 'demo',
-        network: alchemyNetwork
-      });
-
-      // Fetch real price data from CoinGecko API
-      const realPrice = await this.fetchRealTokenPrice(token, network, timestamp);
-
-      if (realPrice === null) {
-        logger.warn(`No price data available for ${token} on ${network} at ${timestamp}`);
-        return null;
+      for (const provider of priceProviderRegistry.getProviders(network)) {
+        try {
+          const price = await provider.fetchPrice(token, network, timestamp);
+
+          if (price !== null) {
+            logger.info(`Successfully fetched price for ${token} from ${provider.name}: $${price}`);
+            return {
+              price,
+              timestamp,
+              source: provider.name
+            };
+          }
+        } catch (error) {
+          logger.warn(`Price provider ${provider.name} failed for ${token}:`, error);
+        }
       }
 
-      const result: AlchemyPriceData = {
-        price: realPrice,
-        timestamp: timestamp
-      };
-
-      logger.info(`Successfully fetched price for ${token}: $${realPrice}`);
-      return result;
+      logger.warn(`No price data available for ${token} on ${network} at ${timestamp}`);
+      return null;
 
     } catch (error) {
-      logger.error(`Error fetching price from Alchemy:`, error);
+      logger.error(`Error fetching token price:`, error);
       return null;
     }
   }
 
   /**
-   * Fetch real token price from CoinGecko API
-   * This replaces the mock implementation with real price data
+   * Get a quote from every registered provider that can price the token, queried concurrently
    */
-  private async fetchRealTokenPrice(token: string, network: NetworkType, timestamp: string): Promise<number | null> {
-    try {
-      // Map token symbols to CoinGecko IDs
-      const tokenMap: Record<string, string> = {
-        'BTC': 'bitcoin',
-        'ETH': 'ethereum',
-        'USDC': 'usd-coin',
-        'USDT': 'tether',
-        'MATIC': 'matic-network',
-        'LINK': 'chainlink',
-        'UNI': 'uniswap',
-        'AAVE': 'aave',
-        'COMP': 'compound-governance-token',
-        'MKR': 'maker'
-      };
-
-      const coinId = tokenMap[token.toUpperCase()];
-      if (!coinId) {
-        logger.warn(`No CoinGecko mapping for token: ${token}`);
-        return null;
+  async getTokenPriceQuotes(token: string, network: NetworkType, timestamp: string): Promise<PriceQuote[]> {
+    const providers = priceProviderRegistry.getProviders(network);
+
+    const results = await Promise.allSettled(
+      providers.map(provider => provider.fetchPrice(token, network, timestamp))
+    );
+
+    const quotes: PriceQuote[] = [];
+    results.forEach((result, index) => {
+      const { name } = providers[index];
+      if (result.status === 'rejected') {
+        logger.warn(`Price provider ${name} failed for ${token}:`, result.reason);
+      } else if (result.value !== null) {
+        quotes.push({ source: name, price: result.value });
       }
+    });
 
-      // Check if timestamp is recent (within 24 hours) for current price
-      const now = new Date();
-      const requestTime = new Date(timestamp);
-      const hoursDiff = (now.getTime() - requestTime.getTime()) / (1000 * 60 * 60);
-
-      let apiUrl: string;
-
-      if (hoursDiff <= 24) {
-        // Use current price endpoint for recent requests
-        apiUrl = `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=usd`;
-      } else {
-        // Use historical price endpoint for older requests
-        const dateStr = requestTime.toISOString().split('T')[0]; // YYYY-MM-DD format
-        apiUrl = `https://api.coingecko.com/api/v3/coins/${coinId}/history?date=${dateStr}`;
-      }
-
-      logger.info(`Fetching real price from CoinGecko: ${apiUrl}`);
-
-      const response = await axios.get(apiUrl, {
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'TokenPriceOracle/1.0'
-        },
-        timeout: 10000 // 10 second timeout
-      });
-
-      const data = response.data;
-
-      let price: number;
+    return quotes;
+  }
 
-      if (hoursDiff <= 24) {
-        // Current price response format
-        price = data[coinId]?.usd;
-      } else {
-        // Historical price response format
-        price = data.market_data?.current_price?.usd;
-      }
+  /**
+   * Get a robust aggregate of the prices quoted by every registered provider
+   * The divergence is the spread between the highest and lowest quote relative to the aggregate.
+   */
+  async getAggregatedTokenPrice(
+    token: string,
+    network: NetworkType,
+    timestamp: string,
+    aggregation: AggregationMethod = 'median'
+  ): Promise<AggregatedPriceData | null> {
+    try {
+      logger.info(`Aggregating prices for ${token} on ${network} at ${timestamp} (${aggregation})`);
 
-      if (typeof price !== 'number' || isNaN(price)) {
-        logger.warn(`Invalid price data received for ${token}: ${price}`);
+      const quotes = await this.getTokenPriceQuotes(token, network, timestamp);
+      if (quotes.length === 0) {
+        logger.warn(`No price data available for ${token} on ${network} at ${timestamp}`);
         return null;
       }
 
-      logger.info(`Successfully fetched real price for ${token}: $${price}`);
-      return Math.round(price * 100) / 100; // Round to 2 decimal places
+      const prices = quotes.map(quote => quote.price);
+      const price = aggregation === 'trimmed-mean' ? trimmedMean(prices) : median(prices);
+      const divergence = price > 0 ? (Math.max(...prices) - Math.min(...prices)) / price * 100 : 0;
+
+      logger.info(`Aggregated ${quotes.length} quotes for ${token}: $${price} (divergence ${divergence.toFixed(2)}%)`);
 
+      return {
+        price,
+        timestamp,
+        source: 'aggregated',
+        aggregation,
+        quotes,
+        divergence: Math.round(divergence * 100) / 100
+      };
     } catch (error) {
-      logger.error(`Error fetching real price for ${token}:`, error);
+      logger.error(`Error aggregating token price:`, error);
       return null;
     }
   }
@@ -203,7 +173,7 @@ class AlchemyService {
    * Get supported networks
    */
   getSupportedNetworks(): NetworkType[] {
-    return Array.from(this.networkMap.keys());
+    return alchemyClients.getNetworks();
   }
 }
 
@@ -0,0 +1,61 @@
+import { Alchemy, Network } from 'alchemy-sdk';
+import logger from '../utils/logger';
+import { NetworkType } from '../types';
+
+// Map our network types to Alchemy networks
+const networkMap: Map<NetworkType, Network> = new Map([
+  ['ethereum', Network.ETH_MAINNET],
+  ['polygon', Network.MATIC_MAINNET],
+  ['arbitrum', Network.ARB_MAINNET],
+  ['optimism', Network.OPT_MAINNET],
+  ['base', Network.BASE_MAINNET]
+]);
+
+/**
+ * Alchemy clients, one per network, shared by everything that talks to a chain
+ *
+ * Each network uses ALCHEMY_API_KEY_<NETWORK> and ALCHEMY_RPC_URL_<NETWORK> when set
+ * (e.g. ALCHEMY_RPC_URL_POLYGON), falling back to ALCHEMY_API_KEY and ALCHEMY_RPC_URL.
+ * An RPC URL replaces the Alchemy endpoint, e.g. to use a local JSON-RPC stand-in.
+ */
+class AlchemyClientPool {
+  private clients: Map<NetworkType, Alchemy> = new Map();
+
+  constructor() {
+    for (const [network, alchemyNetwork] of networkMap) {
+      const suffix = network.toUpperCase();
+      const url = process.env[`ALCHEMY_RPC_URL_${suffix}`] || process.env.ALCHEMY_RPC_URL;
+
+      this.clients.set(network, new Alchemy({
+        apiKey: process.env[`ALCHEMY_API_KEY_${suffix}`] || process.env.ALCHEMY_API_KEY || 'demo',
+        network: alchemyNetwork,
+        ...(url && { url })
+      }));
+    }
+
+    logger.info(`Alchemy clients created for ${this.getNetworks().join(', ')}`);
+  }
+
+  /**
+   * Get the client for a network
+   * @throws Error if the network has no Alchemy mapping
+   */
+  get(network: NetworkType): Alchemy {
+    const client = this.clients.get(network);
+    if (!client) {
+      throw new Error(`Unsupported network: ${network}`);
+    }
+    return client;
+  }
+
+  has(network: string): network is NetworkType {
+    return this.clients.has(network as NetworkType);
+  }
+
+  getNetworks(): NetworkType[] {
+    return Array.from(this.clients.keys());
+  }
+}
+
+const alchemyClients = new AlchemyClientPool();
+export default alchemyClients;
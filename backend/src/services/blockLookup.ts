@@ -0,0 +1,98 @@
+import alchemyClients from './alchemyClients';
+import mongoService from './mongodb';
+import tieredCache from './tieredCache';
+import logger from '../utils/logger';
+import { BlockInfo, NetworkType } from '../types';
+
+// Mapped blocks never change once the chain has moved past them
+const BLOCK_CACHE_TTL = parseInt(process.env.BLOCK_CACHE_TTL || '604800'); // 7 days
+
+/**
+ * Timestamp to block resolution
+ *
+ * Finds the last block at or before a timestamp by binary search over
+ * `alchemy.core.getBlock`. Blocks seen by earlier searches are stored in MongoDB
+ * and narrow the range searched, and the two blocks either side of a result are
+ * stored so that any later timestamp between them resolves without RPC calls.
+ * Results are also cached (in memory and Redis) by exact timestamp.
+ */
+class BlockLookupService {
+  /**
+   * Find the last block at or before a timestamp
+   * Timestamps past the chain head resolve to the head block, which is not cached.
+   *
+   * @param timestamp - Unix timestamp
+   * @returns The block, or null if the timestamp is before the first block
+   */
+  async getBlockAtTimestamp(network: NetworkType, timestamp: number): Promise<BlockInfo | null> {
+    const cacheKey = `block:${network}:${timestamp}`;
+    const cached = await tieredCache.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const [before, after] = await mongoService.findBlockBounds(network, timestamp);
+    if (before && after && after.number === before.number + 1) {
+      await tieredCache.set(cacheKey, JSON.stringify(before), BLOCK_CACHE_TTL);
+      return before;
+    }
+
+    let high = after;
+    if (!high) {
+      const head = await this.fetchBlock(network, 'latest');
+      if (timestamp >= head.timestamp) {
+        return head;
+      }
+      high = head;
+    }
+
+    let low = before || await this.getBlock(network, 0);
+    if (timestamp < low.timestamp) {
+      return null;
+    }
+
+    // Invariant: low.timestamp <= timestamp < high.timestamp
+    let probes = 0;
+    while (high.number - low.number > 1) {
+      const block = await this.fetchBlock(network, Math.floor((low.number + high.number) / 2));
+      if (block.timestamp <= timestamp) {
+        low = block;
+      } else {
+        high = block;
+      }
+      probes++;
+    }
+
+    logger.info(`Resolved ${new Date(timestamp * 1000).toISOString()} to block ${low.number} on ${network} in ${probes} probes`);
+
+    await mongoService.saveBlocks([low, high]);
+    await tieredCache.set(cacheKey, JSON.stringify(low), BLOCK_CACHE_TTL);
+    return low;
+  }
+
+  /**
+   * Get a block by number, from stored blocks when it was seen before
+   */
+  async getBlock(network: NetworkType, number: number): Promise<BlockInfo> {
+    const stored = await mongoService.findBlock(network, number);
+    if (stored) {
+      return stored;
+    }
+
+    const block = await this.fetchBlock(network, number);
+    await mongoService.saveBlocks([block]);
+    return block;
+  }
+
+  private async fetchBlock(network: NetworkType, blockTag: number | 'latest'): Promise<BlockInfo> {
+    const block = await alchemyClients.get(network).core.getBlock(blockTag);
+    if (!block) {
+      throw new Error(`Block ${blockTag} not found on ${network}`);
+    }
+
+    return { network, number: block.number, timestamp: block.timestamp };
+  }
+}
+
+const blockLookup = new BlockLookupService();
+export default blockLookup;
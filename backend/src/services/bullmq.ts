@@ -1,6 +1,7 @@
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue, QueueEvents, Worker, Job } from 'bullmq';
 import { Redis } from 'ioredis';
 import { processPriceHistoryJob } from '../workers/priceHistoryWorker';
+import { normalizeCronExpression } from '../utils/cron';
 import logger from '../utils/logger';
 
 // Job data interface
@@ -10,6 +11,7 @@ export interface PriceHistoryJobData {
   startDate?: string;
   endDate?: string;
   requestId?: string;
+  scheduleId?: string; // scheduled job that triggered this run, if any
 }
 
 // Job result interface
@@ -25,10 +27,40 @@ export interface PriceHistoryJobResult {
   errors: string[];
 }
 
+// Progress, completion and failure of a queued job
+export type PriceHistoryJobEvent =
+  | { type: 'active'; jobId: string }
+  | { type: 'progress'; jobId: string; progress: number }
+  | { type: 'completed'; jobId: string; result: PriceHistoryJobResult }
+  | { type: 'failed'; jobId: string; error: string };
+
+export type PriceHistoryJobEventListener = (event: PriceHistoryJobEvent) => void;
+
+// Queue job IDs created for scheduled jobs: `run-<scheduleId>-<millis>` for immediate
+// runs and `repeat:<scheduleId>:<millis>` for runs created by the job scheduler
+const SCHEDULED_RUN_JOB_ID = /^(?:run-(.+)-|repeat:(.+):)\d+$/;
+
+/**
+ * Create a queue job ID for an immediate run of a scheduled job
+ */
+export function createScheduledRunJobId(scheduleId: string): string {
+  return `run-${scheduleId}-${Date.now()}`;
+}
+
+/**
+ * Get the scheduled job ID a queue job belongs to, if any
+ */
+export function getScheduleIdFromJobId(jobId: string): string | null {
+  const match = SCHEDULED_RUN_JOB_ID.exec(jobId);
+  return match ? match[1] || match[2] : null;
+}
+
 class BullMQService {
   private redis: Redis | null = null;
   private queue: Queue<PriceHistoryJobData, PriceHistoryJobResult> | null = null;
   private worker: Worker<PriceHistoryJobData, PriceHistoryJobResult> | null = null;
+  private queueEvents: QueueEvents | null = null;
+  private jobEventListeners: Map<string, Set<PriceHistoryJobEventListener>> = new Map();
   private isEnabled: boolean = false;
 
   constructor() {
@@ -140,6 +172,65 @@ class BullMQService {
     }
   }
 
+  /**
+   * Create or update the repeatable job scheduler for a scheduled job
+   * The scheduler ID is the scheduled job ID so it can be removed later
+   */
+  async upsertJobScheduler(
+    scheduleId: string,
+    pattern: string,
+    jobData: PriceHistoryJobData,
+    timezone?: string
+  ): Promise<{ jobId: string; nextRun: string | null } | null> {
+    if (!this.isEnabled || !this.queue) {
+      logger.warn('BullMQ not available, cannot schedule repeatable job');
+      return null;
+    }
+
+    try {
+      // Jobs stored before intervals were normalised may still hold aliases such as @annually
+      const cron = normalizeCronExpression(pattern);
+      const job = await this.queue.upsertJobScheduler(
+        scheduleId,
+        timezone ? { pattern: cron, tz: timezone } : { pattern: cron, utc: true },
+        {
+          name: 'fetch-price-history',
+          data: { ...jobData, scheduleId }
+        }
+      );
+
+      const nextRun = job?.timestamp !== undefined ? new Date(job.timestamp + (job.opts.delay || 0)).toISOString() : null;
+      logger.info(`Job scheduler ${scheduleId} upserted with pattern '${cron}'`);
+
+      return {
+        jobId: job?.id || 'unknown',
+        nextRun
+      };
+    } catch (error) {
+      logger.error(`Failed to upsert job scheduler ${scheduleId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove the repeatable job scheduler for a scheduled job
+   */
+  async removeJobScheduler(scheduleId: string): Promise<boolean> {
+    if (!this.isEnabled || !this.queue) {
+      logger.warn('BullMQ not available, cannot remove job scheduler');
+      return false;
+    }
+
+    try {
+      const removed = await this.queue.removeJobScheduler(scheduleId);
+      logger.info(`Job scheduler ${scheduleId} ${removed ? 'removed' : 'not found'}`);
+      return removed;
+    } catch (error) {
+      logger.error(`Failed to remove job scheduler ${scheduleId}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Get job status
    */
@@ -205,6 +296,90 @@ class BullMQService {
     }
   }
 
+  /**
+   * Subscribe to the events of every queue job run for a scheduled job
+   * @returns An unsubscribe function, or null when BullMQ is not available
+   */
+  subscribeToJobEvents(scheduleId: string, listener: PriceHistoryJobEventListener): (() => void) | null {
+    if (!this.isEnabled || !this.redis || !this.initializeQueueEvents()) {
+      return null;
+    }
+
+    const listeners = this.jobEventListeners.get(scheduleId) || new Set<PriceHistoryJobEventListener>();
+    listeners.add(listener);
+    this.jobEventListeners.set(scheduleId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.jobEventListeners.delete(scheduleId);
+      }
+    };
+  }
+
+  /**
+   * Lazily create the QueueEvents listener used by job event subscriptions
+   * QueueEvents blocks on its connection, so it gets a duplicate of the shared one
+   */
+  private initializeQueueEvents(): boolean {
+    if (this.queueEvents) {
+      return true;
+    }
+
+    if (!this.redis) {
+      return false;
+    }
+
+    try {
+      const queueName = process.env.BULLMQ_QUEUE_NAME || 'price-history';
+
+      this.queueEvents = new QueueEvents(queueName, {
+        connection: this.redis.duplicate()
+      });
+
+      this.queueEvents.on('active', ({ jobId }) => {
+        this.emitJobEvent({ type: 'active', jobId });
+      });
+
+      this.queueEvents.on('progress', ({ jobId, data }) => {
+        if (typeof data === 'number') {
+          this.emitJobEvent({ type: 'progress', jobId, progress: data });
+        }
+      });
+
+      this.queueEvents.on('completed', ({ jobId, returnvalue }) => {
+        this.emitJobEvent({ type: 'completed', jobId, result: returnvalue as unknown as PriceHistoryJobResult });
+      });
+
+      this.queueEvents.on('failed', ({ jobId, failedReason }) => {
+        this.emitJobEvent({ type: 'failed', jobId, error: failedReason });
+      });
+
+      this.queueEvents.on('error', (error) => {
+        logger.error('BullMQ queue events error:', error);
+      });
+
+      logger.info(`BullMQ queue events listener started for queue: ${queueName}`);
+      return true;
+    } catch (error) {
+      logger.error('Failed to initialize BullMQ queue events:', error);
+      return false;
+    }
+  }
+
+  private emitJobEvent(event: PriceHistoryJobEvent): void {
+    const scheduleId = getScheduleIdFromJobId(event.jobId);
+    const listeners = scheduleId ? this.jobEventListeners.get(scheduleId) : undefined;
+
+    listeners?.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn(`Job event listener for ${scheduleId} failed:`, error);
+      }
+    });
+  }
+
   /**
    * Start the worker (this will be called from a separate worker process)
    */
@@ -250,6 +425,11 @@ class BullMQService {
         logger.info('BullMQ worker closed');
       }
 
+      if (this.queueEvents) {
+        await this.queueEvents.close();
+        logger.info('BullMQ queue events closed');
+      }
+
       if (this.queue) {
         await this.queue.close();
         logger.info('BullMQ queue closed');
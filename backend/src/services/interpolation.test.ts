@@ -0,0 +1,249 @@
+import mongoService from './mongodb';
+import {
+  batchInterpolatePrice,
+  DEFAULT_MAX_STALENESS,
+  extrapolateSeries,
+  interpolateBetween,
+  interpolatePrice,
+  interpolateSeries,
+  PricePoint
+} from './interpolation';
+import { InterpolationMethod } from '../types';
+
+jest.mock('../utils/logger');
+jest.mock('./mongodb', () => ({
+  __esModule: true,
+  default: {
+    getPriceHistory: jest.fn(),
+    findPricesAround: jest.fn()
+  }
+}));
+
+const getPriceHistory = mongoService.getPriceHistory as jest.Mock;
+const findPricesAround = mongoService.findPricesAround as jest.Mock;
+
+// Rises, holds flat, then rises faster
+const POINTS: PricePoint[] = [
+  { timestamp: 0, price: 100 },
+  { timestamp: 100, price: 200 },
+  { timestamp: 200, price: 200 },
+  { timestamp: 300, price: 400 }
+];
+
+const METHODS: InterpolationMethod[] = ['linear', 'previous', 'spline', 'log-linear'];
+
+describe('interpolateSeries', () => {
+  it('interpolates linearly by default', () => {
+    expect(interpolateSeries(POINTS, 50)?.price).toBe(150);
+    expect(interpolateSeries(POINTS, 250)).toMatchObject({ price: 300, method: 'linear', staleness: 50 });
+  });
+
+  it('holds the last known price with previous', () => {
+    expect(interpolateSeries(POINTS, 50, 'previous')?.price).toBe(100);
+    expect(interpolateSeries(POINTS, 299, 'previous')?.price).toBe(200);
+  });
+
+  it('follows a constant growth rate with log-linear', () => {
+    expect(interpolateSeries(POINTS, 50, 'log-linear')?.price).toBe(141.42);
+    expect(interpolateSeries(POINTS, 250, 'log-linear')?.price).toBe(282.84);
+  });
+
+  it('falls back to a straight line for non-positive prices with log-linear', () => {
+    const points = [{ timestamp: 0, price: 0 }, { timestamp: 100, price: 10 }];
+    expect(interpolateSeries(points, 50, 'log-linear')).toMatchObject({ price: 5, method: 'linear' });
+  });
+
+  it('keeps the spline monotone between known prices', () => {
+    // Flat between two equal prices, no overshoot next to them
+    expect(interpolateSeries(POINTS, 150, 'spline')?.price).toBe(200);
+
+    let previous = -Infinity;
+    for (let timestamp = 0; timestamp < 300; timestamp += 10) {
+      const price = interpolateSeries(POINTS, timestamp, 'spline')!.price;
+      expect(price).toBeGreaterThanOrEqual(previous);
+      expect(price).toBeGreaterThanOrEqual(100);
+      expect(price).toBeLessThanOrEqual(400);
+      previous = price;
+    }
+  });
+
+  it('matches linear interpolation for a spline with a single neighbour on each side', () => {
+    const points = POINTS.slice(0, 2);
+    expect(interpolateSeries(points, 25, 'spline')?.price).toBe(interpolateSeries(points, 25, 'linear')?.price);
+  });
+
+  it.each(METHODS)('returns the known price at the lower window edge with %s', (method) => {
+    expect(interpolateSeries(POINTS, 0, method)?.price).toBe(100);
+    expect(interpolateSeries(POINTS, 100, method)?.price).toBe(200);
+  });
+
+  it.each(METHODS)('returns the known price at the upper window edge with %s', (method) => {
+    expect(interpolateSeries(POINTS, 300, method)).toMatchObject({
+      price: 400,
+      staleness: 0,
+      dataPoints: {
+        before: { timestamp: 200, price: 200 },
+        after: { timestamp: 300, price: 400, timeDiff: 0 }
+      }
+    });
+  });
+
+  it.each(METHODS)('uses the last of several prices at the upper window edge with %s', (method) => {
+    const points = [...POINTS, { timestamp: 300, price: 410 }];
+    expect(interpolateSeries(points, 300, method)).toMatchObject({
+      price: 410,
+      dataPoints: { before: { timestamp: 200 }, after: { timestamp: 300, price: 410 } }
+    });
+  });
+
+  it.each(METHODS)('needs known prices on both sides of the query with %s', (method) => {
+    expect(interpolateSeries(POINTS, 301, method)).toBeNull();
+    expect(interpolateSeries(POINTS, -1, method)).toBeNull();
+  });
+
+  it.each(METHODS)('cannot interpolate from a single known price with %s', (method) => {
+    expect(interpolateSeries([{ timestamp: 100, price: 5 }], 100, method)).toBeNull();
+    expect(interpolateSeries([], 100, method)).toBeNull();
+  });
+
+  it.each(METHODS)('uses the last of several prices sharing a timestamp with %s', (method) => {
+    const points = [
+      { timestamp: 0, price: 100 },
+      { timestamp: 100, price: 200 },
+      { timestamp: 100, price: 210 },
+      { timestamp: 200, price: 300 }
+    ];
+
+    const result = interpolateSeries(points, 150, method);
+    expect(result?.dataPoints.before).toMatchObject({ timestamp: 100, price: 210 });
+    expect(Number.isFinite(result?.price)).toBe(true);
+    expect(result!.price).toBeGreaterThanOrEqual(210);
+    expect(result!.price).toBeLessThanOrEqual(300);
+  });
+
+  it('reports the surrounding prices and a bounded confidence', () => {
+    const result = interpolateSeries(POINTS, 150)!;
+
+    expect(result.dataPoints).toEqual({
+      before: { timestamp: 100, price: 200, timeDiff: 50 },
+      after: { timestamp: 200, price: 200, timeDiff: 50 }
+    });
+    expect(result.confidence).toBeGreaterThan(0);
+    expect(result.confidence).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('interpolatePrice', () => {
+  it('interpolates at the latest stored price', async () => {
+    // A price at the query timestamp is returned on the earlier side
+    findPricesAround.mockResolvedValue(POINTS.slice(2));
+
+    expect(await interpolatePrice('ETH', 'ethereum', 300)).toMatchObject({ price: 400, staleness: 0 });
+    expect(findPricesAround).toHaveBeenCalledWith('ETH', 'ethereum', 300, 2);
+  });
+});
+
+describe('interpolateBetween', () => {
+  it('returns null for two prices at the same timestamp', () => {
+    expect(interpolateBetween({ timestamp: 100, price: 1 }, { timestamp: 100, price: 2 }, 100)).toBeNull();
+  });
+});
+
+describe('extrapolateSeries', () => {
+  it('carries the nearest price forward and backward', () => {
+    expect(extrapolateSeries(POINTS, 400, 'carry')).toMatchObject({
+      price: 400,
+      mode: 'carry',
+      staleness: 100,
+      anchor: { timestamp: 300, price: 400 }
+    });
+    expect(extrapolateSeries(POINTS, -100, 'carry')).toMatchObject({ price: 100, staleness: 100 });
+  });
+
+  it('extends the trend of the two nearest prices', () => {
+    expect(extrapolateSeries(POINTS, 400, 'trend')?.price).toBe(600);
+    expect(extrapolateSeries(POINTS, -50, 'trend')?.price).toBe(50);
+  });
+
+  it('keeps the nearest price when the trend runs to zero or below', () => {
+    expect(extrapolateSeries(POINTS, -150, 'trend')?.price).toBe(100);
+  });
+
+  it('carries a single known price in trend mode', () => {
+    expect(extrapolateSeries([{ timestamp: 0, price: 5 }], 10, 'trend')?.price).toBe(5);
+  });
+
+  it('ignores a neighbour sharing the anchor timestamp', () => {
+    const points = [{ timestamp: 100, price: 1 }, { timestamp: 100, price: 2 }];
+    expect(extrapolateSeries(points, 200, 'trend')?.price).toBe(2);
+  });
+
+  it('refuses queries between known prices or beyond the maximum staleness', () => {
+    expect(extrapolateSeries(POINTS, 150, 'carry')).toBeNull();
+    expect(extrapolateSeries(POINTS, 300 + DEFAULT_MAX_STALENESS + 1, 'carry')).toBeNull();
+    expect(extrapolateSeries(POINTS, 360, 'carry', 50)).toBeNull();
+    expect(extrapolateSeries([], 0, 'carry')).toBeNull();
+  });
+
+  it('lowers confidence with staleness, below that of interpolation', () => {
+    const fresh = extrapolateSeries(POINTS, 301, 'carry')!.confidence;
+    const stale = extrapolateSeries(POINTS, 300 + DEFAULT_MAX_STALENESS / 2, 'carry')!.confidence;
+
+    expect(fresh).toBeLessThanOrEqual(0.3);
+    expect(stale).toBeCloseTo(0.15, 5);
+    expect(extrapolateSeries(POINTS, 300 + DEFAULT_MAX_STALENESS, 'carry')!.confidence).toBe(0);
+    expect(extrapolateSeries(POINTS, 301, 'trend')!.confidence).toBeLessThan(fresh);
+  });
+});
+
+describe('batchInterpolatePrice', () => {
+  const stored = POINTS.map(point => ({ ...point }));
+
+  beforeEach(() => {
+    getPriceHistory.mockReset();
+    getPriceHistory.mockResolvedValue(stored);
+  });
+
+  it.each(METHODS)('keeps results aligned with unsorted input using %s', async (method) => {
+    const timestamps = [250, 50, 400, 150, 50, 0, 300];
+    const results = await batchInterpolatePrice('ETH', 'ethereum', timestamps, method);
+
+    expect(results).toHaveLength(timestamps.length);
+    results.forEach((result, index) => {
+      expect(result).toEqual(interpolateSeries(POINTS, timestamps[index], method));
+    });
+    expect(results[2]).toBeNull();
+    expect(results[6]?.price).toBe(400);
+  });
+
+  it('loads one padded window around the queries', async () => {
+    await batchInterpolatePrice('ETH', 'ethereum', [1000, 500, 2000]);
+
+    const padding = 7 * 24 * 60 * 60;
+    expect(getPriceHistory).toHaveBeenCalledTimes(1);
+    expect(getPriceHistory).toHaveBeenCalledWith(
+      'ETH',
+      'ethereum',
+      new Date((500 - padding) * 1000),
+      new Date((2000 + padding) * 1000)
+    );
+  });
+
+  it('interpolates from supplied prices, which replace stored ones at the same timestamp', async () => {
+    const known = [{ timestamp: 500, price: 600 }, { timestamp: 200, price: 300 }];
+    const results = await batchInterpolatePrice('ETH', 'ethereum', [400, 150], 'linear', known);
+
+    expect(results[0]?.price).toBe(500);
+    expect(results[1]?.price).toBe(250);
+  });
+
+  it('returns no results for no timestamps without querying', async () => {
+    expect(await batchInterpolatePrice('ETH', 'ethereum', [])).toEqual([]);
+    expect(getPriceHistory).not.toHaveBeenCalled();
+  });
+
+  it('returns nulls when the stored prices cannot be loaded', async () => {
+    getPriceHistory.mockRejectedValue(new Error('Connection lost'));
+    expect(await batchInterpolatePrice('ETH', 'ethereum', [50, 150])).toEqual([null, null]);
+  });
+});
@@ -1,17 +1,47 @@
 import mongoService from '../services/mongodb';
 import logger from '../utils/logger';
+import { ExtrapolationMode, InterpolationMethod } from '../types';
 
 /**
  * Interpolation Engine for Token Prices
  * 
- * This function performs linear interpolation between two known price points
- * to estimate the price at a specific timestamp.
+ * Estimates the price at a specific timestamp from the known prices around it.
+ * Supported methods:
+ * - linear: straight line between the surrounding prices
+ * - previous: step function holding the last known price
+ * - spline: monotone cubic spline through up to SPLINE_NEIGHBOURS prices on each side
+ * - log-linear: straight line in log space, i.e. a constant growth rate (volatile assets)
+ *
+ * When prices are only known on one side of the query, extrapolation can opt in to
+ * carry the nearest known price or extend the trend of the two nearest prices.
  */
 
+// Number of known prices on each side of the query used by the spline method
+const SPLINE_NEIGHBOURS = 3;
+
+// Known prices loaded beyond either end of a batch, so its outermost timestamps can be bracketed
+const BATCH_WINDOW_PADDING = 7 * 24 * 60 * 60; // 7 days in seconds
+
+// Default for how far from the nearest known price extrapolation may reach
+export const DEFAULT_MAX_STALENESS = 24 * 60 * 60; // 1 day in seconds
+
+// Confidence multipliers for extrapolated prices, which are far less reliable than interpolated ones
+const EXTRAPOLATION_CONFIDENCE: Record<ExtrapolationMode, number> = {
+  carry: 0.3,
+  trend: 0.2
+};
+
+export interface PricePoint {
+  timestamp: number; // Unix timestamp
+  price: number;
+}
+
 export interface InterpolationResult {
   price: number;
   source: 'interpolated';
+  method: InterpolationMethod;
   confidence: number; // 0-1 scale indicating interpolation confidence
+  staleness: number; // seconds between the query and the nearest known price
   dataPoints: {
     before: {
       timestamp: number;
@@ -26,92 +56,415 @@ export interface InterpolationResult {
   };
 }
 
+export interface ExtrapolationResult {
+  price: number;
+  source: 'extrapolated';
+  mode: ExtrapolationMode;
+  confidence: number; // 0-1 scale, heavily penalised compared to interpolation
+  staleness: number; // seconds between the query and the nearest known price
+  anchor: PricePoint; // nearest known price
+}
+
+export interface InterpolationStats {
+  dataPoints: number;
+  dateRange: {
+    earliest: number; // Unix timestamp
+    latest: number; // Unix timestamp
+    span: number;
+  } | null;
+  averageGap: number;
+  maxGap: number;
+  interpolatedShare: number; // 0-1
+}
+
+const EMPTY_STATS: InterpolationStats = {
+  dataPoints: 0,
+  dateRange: null,
+  averageGap: 0,
+  maxGap: 0,
+  interpolatedShare: 0
+};
+
 /**
  * Interpolates token price based on closest known prices
  * 
  * @param token - Token symbol (e.g., 'BTC', 'ETH')
  * @param network - Network name (e.g., 'ethereum', 'polygon')
  * @param queryTimestamp - Target timestamp for interpolation
+ * @param method - Interpolation method (defaults to linear)
  * @returns Interpolated price result or null if insufficient data
  */
 export async function interpolatePrice(
   token: string,
   network: string,
-  queryTimestamp: number
+  queryTimestamp: number,
+  method: InterpolationMethod = 'linear'
 ): Promise<InterpolationResult | null> {
   try {
-    logger.info(`Interpolating price for ${token} on ${network} at timestamp ${queryTimestamp}`);
+    logger.info(`Interpolating price for ${token} on ${network} at timestamp ${queryTimestamp} (${method})`);
 
-    // Find closest prices before and after the query timestamp
-    const [beforePrice, afterPrice] = await mongoService.findClosestPrices(
-      token,
-      network,
-      queryTimestamp
-    );
+    // Find the closest prices around the query timestamp; one extra, as a price stored at the
+    // query timestamp itself counts as the one before it
+    const neighbours = (method === 'spline' ? SPLINE_NEIGHBOURS : 1) + 1;
+    const prices = await mongoService.findPricesAround(token, network, queryTimestamp, neighbours);
 
     // Check if we have sufficient data for interpolation
-    if (!beforePrice && !afterPrice) {
+    if (prices.length === 0) {
       logger.warn(`No price data found for ${token} on ${network}`);
       return null;
     }
 
-    // If we only have one data point, we can't interpolate
-    if (!beforePrice || !afterPrice) {
+    const points = prices.map(price => ({ timestamp: price.timestamp, price: price.price }));
+    const result = interpolateSeries(points, queryTimestamp, method);
+
+    // We need a known price on both sides to interpolate
+    if (!result) {
       logger.warn(`Insufficient data for interpolation: ${token} on ${network}`);
       return null;
     }
 
-    const ts1 = beforePrice.timestamp;
-    const ts2 = afterPrice.timestamp;
-    const price1 = beforePrice.price;
-    const price2 = afterPrice.price;
+    logger.info(`Interpolated price for ${token}: $${result.price} (${result.method}, confidence: ${result.confidence.toFixed(2)})`);
+    return result;
 
-    // Ensure we have different timestamps
-    if (ts1 === ts2) {
-      logger.warn(`Same timestamp for both data points: ${ts1}`);
-      return null;
+  } catch (error) {
+    logger.error('Error in interpolatePrice:', error);
+    return null;
+  }
+}
+
+/**
+ * Interpolates a price from known points held in memory
+ *
+ * @param points - Known prices sorted by ascending timestamp
+ * @param queryTimestamp - Target timestamp for interpolation
+ * @param method - Interpolation method (defaults to linear)
+ * @returns Interpolated price result or null if the query is outside the known points
+ */
+export function interpolateSeries(
+  points: PricePoint[],
+  queryTimestamp: number,
+  method: InterpolationMethod = 'linear'
+): InterpolationResult | null {
+  // Binary search for the first point after the query timestamp
+  let low = 0;
+  let high = points.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].timestamp <= queryTimestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
     }
+  }
 
-    // Calculate interpolation ratio
-    const ratio = (queryTimestamp - ts1) / (ts2 - ts1);
+  return interpolateAt(points, low, queryTimestamp, method);
+}
 
-    // Perform linear interpolation
-    const interpolatedPrice = price1 + (price2 - price1) * ratio;
+/**
+ * Interpolates between points[afterIndex - 1] and points[afterIndex], the known prices
+ * bracketing the query; the spline method also uses the neighbours on either side.
+ * A query at the last known timestamp is bracketed by that price and the one before it.
+ */
+function interpolateAt(
+  points: PricePoint[],
+  afterIndex: number,
+  queryTimestamp: number,
+  method: InterpolationMethod
+): InterpolationResult | null {
+  let upperIndex = afterIndex;
+  let beforeIndex = afterIndex - 1;
+  if (afterIndex === points.length && points[afterIndex - 1]?.timestamp === queryTimestamp) {
+    upperIndex = afterIndex - 1;
+    while (beforeIndex >= 0 && points[beforeIndex].timestamp === queryTimestamp) {
+      beforeIndex--;
+    }
+  }
 
-    // Calculate confidence based on time gap and price stability
-    const confidence = calculateInterpolationConfidence(
-      queryTimestamp,
-      ts1,
-      ts2,
-      price1,
-      price2
-    );
+  if (beforeIndex < 0 || upperIndex >= points.length) {
+    return null;
+  }
 
-    const result: InterpolationResult = {
-      price: Math.round(interpolatedPrice * 100) / 100, // Round to 2 decimal places
-      source: 'interpolated',
-      confidence,
-      dataPoints: {
-        before: {
-          timestamp: ts1,
-          price: price1,
-          timeDiff: queryTimestamp - ts1
-        },
-        after: {
-          timestamp: ts2,
-          price: price2,
-          timeDiff: ts2 - queryTimestamp
-        }
+  const before = points[beforeIndex];
+  const after = points[upperIndex];
+
+  switch (method) {
+    case 'previous': {
+      // Only the inclusive upper bound lands on the after price
+      const price = after.timestamp === queryTimestamp ? after.price : before.price;
+      return buildResult(price, 'previous', before, after, queryTimestamp);
+    }
+
+    case 'log-linear':
+      // Log space needs positive prices; fall back to a straight line otherwise
+      if (before.price > 0 && after.price > 0) {
+        const ratio = (queryTimestamp - before.timestamp) / (after.timestamp - before.timestamp);
+        const price = Math.exp(Math.log(before.price) + (Math.log(after.price) - Math.log(before.price)) * ratio);
+        return buildResult(price, 'log-linear', before, after, queryTimestamp);
       }
-    };
+      return interpolateBetween(before, after, queryTimestamp);
+
+    case 'spline': {
+      const window = points.slice(
+        Math.max(0, beforeIndex - SPLINE_NEIGHBOURS + 1),
+        Math.min(points.length, upperIndex + SPLINE_NEIGHBOURS)
+      );
+      const price = monotoneCubicAt(window, queryTimestamp);
+      return buildResult(price, 'spline', before, after, queryTimestamp);
+    }
 
-    logger.info(`Interpolated price for ${token}: $${result.price} (confidence: ${confidence.toFixed(2)})`);
+    default:
+      return interpolateBetween(before, after, queryTimestamp);
+  }
+}
+
+/**
+ * Extrapolates token price when known prices exist on only one side of the query
+ *
+ * @param token - Token symbol
+ * @param network - Network name
+ * @param queryTimestamp - Target timestamp for extrapolation
+ * @param mode - Carry the nearest price forward/backward or extend its trend
+ * @param maxStaleness - Maximum seconds between the query and the nearest known price
+ * @returns Extrapolated price result or null if no usable price is close enough
+ */
+export async function extrapolatePrice(
+  token: string,
+  network: string,
+  queryTimestamp: number,
+  mode: ExtrapolationMode,
+  maxStaleness: number = DEFAULT_MAX_STALENESS
+): Promise<ExtrapolationResult | null> {
+  try {
+    logger.info(`Extrapolating price for ${token} on ${network} at timestamp ${queryTimestamp} (${mode})`);
+
+    // Two prices on each side are enough to find the nearest pair on the known side
+    const prices = await mongoService.findPricesAround(token, network, queryTimestamp, 2);
+    const points = prices.map(price => ({ timestamp: price.timestamp, price: price.price }));
+
+    const result = extrapolateSeries(points, queryTimestamp, mode, maxStaleness);
+    if (!result) {
+      logger.warn(`No price within ${maxStaleness}s to extrapolate from: ${token} on ${network}`);
+      return null;
+    }
+
+    logger.info(`Extrapolated price for ${token}: $${result.price} (${mode}, ${result.staleness}s stale, confidence: ${result.confidence.toFixed(2)})`);
     return result;
 
   } catch (error) {
-    logger.error('Error in interpolatePrice:', error);
+    logger.error('Error in extrapolatePrice:', error);
+    return null;
+  }
+}
+
+/**
+ * Extrapolates a price from known points held in memory
+ *
+ * @param points - Known prices sorted by ascending timestamp
+ * @param queryTimestamp - Target timestamp outside the range of the points
+ * @param mode - Carry the nearest price or extend the trend of the two nearest prices
+ * @param maxStaleness - Maximum seconds between the query and the nearest known price
+ * @returns Extrapolated price result, or null if the query lies between known points
+ * (interpolate instead) or the nearest price is too stale
+ */
+export function extrapolateSeries(
+  points: PricePoint[],
+  queryTimestamp: number,
+  mode: ExtrapolationMode,
+  maxStaleness: number = DEFAULT_MAX_STALENESS
+): ExtrapolationResult | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  // Nearest known price and its neighbour on the same side, used for the trend
+  let anchor: PricePoint;
+  let neighbour: PricePoint | undefined;
+  if (queryTimestamp > last.timestamp) {
+    anchor = last;
+    neighbour = points[points.length - 2];
+  } else if (queryTimestamp < first.timestamp) {
+    anchor = first;
+    neighbour = points[1];
+  } else {
+    return null;
+  }
+
+  const staleness = Math.abs(queryTimestamp - anchor.timestamp);
+  if (staleness > maxStaleness) {
+    return null;
+  }
+
+  let price = anchor.price;
+  if (mode === 'trend' && neighbour && neighbour.timestamp !== anchor.timestamp) {
+    const slope = (anchor.price - neighbour.price) / (anchor.timestamp - neighbour.timestamp);
+    const trendPrice = anchor.price + slope * (queryTimestamp - anchor.timestamp);
+
+    // A trend running below zero is meaningless; keep the last known price instead
+    if (trendPrice > 0) {
+      price = trendPrice;
+    }
+  }
+
+  const freshness = maxStaleness > 0 ? 1 - staleness / maxStaleness : 0;
+
+  return {
+    price: Math.round(price * 100) / 100, // Round to 2 decimal places
+    source: 'extrapolated',
+    mode,
+    confidence: Math.min(1, Math.max(0, freshness * EXTRAPOLATION_CONFIDENCE[mode])),
+    staleness,
+    anchor
+  };
+}
+
+/**
+ * Linearly interpolates between two known price points
+ *
+ * @param before - Known price at or before the query timestamp
+ * @param after - Known price at or after the query timestamp
+ * @param queryTimestamp - Target timestamp for interpolation
+ * @returns Interpolated price result or null if both points share a timestamp
+ */
+export function interpolateBetween(
+  before: PricePoint,
+  after: PricePoint,
+  queryTimestamp: number
+): InterpolationResult | null {
+  const ts1 = before.timestamp;
+  const ts2 = after.timestamp;
+  const price1 = before.price;
+  const price2 = after.price;
+
+  // Ensure we have different timestamps
+  if (ts1 === ts2) {
     return null;
   }
+
+  // Calculate interpolation ratio
+  const ratio = (queryTimestamp - ts1) / (ts2 - ts1);
+
+  // Perform linear interpolation
+  const interpolatedPrice = price1 + (price2 - price1) * ratio;
+
+  return buildResult(interpolatedPrice, 'linear', before, after, queryTimestamp);
+}
+
+/**
+ * Evaluate a monotone cubic (Fritsch-Carlson) spline through the given points
+ * Monotonicity keeps the curve from overshooting between known prices
+ *
+ * @param points - Known prices sorted by ascending timestamp, spanning at least two timestamps
+ * @param queryTimestamp - Timestamp within the range of the points
+ */
+function monotoneCubicAt(points: PricePoint[], queryTimestamp: number): number {
+  // Equal timestamps would give infinite slopes; as in the bracket search, the last price at a timestamp wins
+  const unique = points.filter((point, i) => i === points.length - 1 || points[i + 1].timestamp !== point.timestamp);
+
+  const n = unique.length;
+  const xs = unique.map(point => point.timestamp);
+  const ys = unique.map(point => point.price);
+
+  // Secant slopes between consecutive points
+  const secants: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    secants.push((ys[i + 1] - ys[i]) / (xs[i + 1] - xs[i]));
+  }
+
+  // Initial tangents: one-sided at the ends, zero at local extrema, averaged elsewhere
+  const tangents: number[] = [secants[0]];
+  for (let i = 1; i < n - 1; i++) {
+    tangents.push(secants[i - 1] * secants[i] <= 0 ? 0 : (secants[i - 1] + secants[i]) / 2);
+  }
+  tangents.push(secants[n - 2]);
+
+  // Limit tangents so each segment stays monotone
+  for (let i = 0; i < n - 1; i++) {
+    if (secants[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+
+    const alpha = tangents[i] / secants[i];
+    const beta = tangents[i + 1] / secants[i];
+    const magnitude = alpha * alpha + beta * beta;
+    if (magnitude > 9) {
+      const scale = 3 / Math.sqrt(magnitude);
+      tangents[i] = scale * alpha * secants[i];
+      tangents[i + 1] = scale * beta * secants[i];
+    }
+  }
+
+  // Evaluate the cubic Hermite polynomial on the segment containing the query
+  let segment = 0;
+  while (segment < n - 2 && xs[segment + 1] <= queryTimestamp) {
+    segment++;
+  }
+
+  const h = xs[segment + 1] - xs[segment];
+  const t = (queryTimestamp - xs[segment]) / h;
+  const t2 = t * t;
+  const t3 = t2 * t;
+
+  return (2 * t3 - 3 * t2 + 1) * ys[segment] +
+    (t3 - 2 * t2 + t) * h * tangents[segment] +
+    (-2 * t3 + 3 * t2) * ys[segment + 1] +
+    (t3 - t2) * h * tangents[segment + 1];
+}
+
+/**
+ * Build an interpolation result with its confidence and surrounding data points
+ */
+function buildResult(
+  price: number,
+  method: InterpolationMethod,
+  before: PricePoint,
+  after: PricePoint,
+  queryTimestamp: number
+): InterpolationResult {
+  // Calculate confidence based on time gap and price stability
+  const confidence = calculateInterpolationConfidence(
+    queryTimestamp,
+    before.timestamp,
+    after.timestamp,
+    before.price,
+    after.price
+  );
+
+  return {
+    price: Math.round(price * 100) / 100, // Round to 2 decimal places
+    source: 'interpolated',
+    method,
+    confidence,
+    staleness: Math.min(queryTimestamp - before.timestamp, after.timestamp - queryTimestamp),
+    dataPoints: {
+      before: {
+        timestamp: before.timestamp,
+        price: before.price,
+        timeDiff: queryTimestamp - before.timestamp
+      },
+      after: {
+        timestamp: after.timestamp,
+        price: after.price,
+        timeDiff: after.timestamp - queryTimestamp
+      }
+    }
+  };
+}
+
+/**
+ * Known prices an interpolated price was derived from, without their distances
+ */
+export function getInterpolationBasis(result: InterpolationResult): { before: PricePoint | null; after: PricePoint | null } {
+  const { before, after } = result.dataPoints;
+
+  return {
+    before: before && { timestamp: before.timestamp, price: before.price },
+    after: after && { timestamp: after.timestamp, price: after.price }
+  };
 }
 
 /**
@@ -158,25 +511,64 @@ function calculateInterpolationConfidence(
 }
 
 /**
- * Batch interpolation for multiple timestamps
- * 
+ * Interpolates many timestamps of one token from a single range query
+ *
+ * Loads the known prices from BATCH_WINDOW_PADDING before the earliest to BATCH_WINDOW_PADDING
+ * after the latest timestamp once, then walks the sorted queries and prices together.
+ *
  * @param token - Token symbol
  * @param network - Network name
- * @param timestamps - Array of timestamps to interpolate
- * @returns Array of interpolation results
+ * @param timestamps - Unix timestamps in seconds, in any order
+ * @param method - Interpolation method (defaults to linear)
+ * @param knownPrices - Prices not yet stored (e.g. just fetched) to interpolate from as well
+ * @returns Results aligned with timestamps, null where a timestamp cannot be interpolated
  */
 export async function batchInterpolatePrice(
   token: string,
   network: string,
-  timestamps: number[]
+  timestamps: number[],
+  method: InterpolationMethod = 'linear',
+  knownPrices: PricePoint[] = []
 ): Promise<(InterpolationResult | null)[]> {
-  const results: (InterpolationResult | null)[] = [];
-  
-  for (const timestamp of timestamps) {
-    const result = await interpolatePrice(token, network, timestamp);
-    results.push(result);
+  const results: (InterpolationResult | null)[] = new Array(timestamps.length).fill(null);
+  if (timestamps.length === 0) {
+    return results;
   }
-  
+
+  try {
+    const earliest = Math.min(...timestamps);
+    const latest = Math.max(...timestamps);
+    const stored = await mongoService.getPriceHistory(
+      token,
+      network,
+      new Date((earliest - BATCH_WINDOW_PADDING) * 1000),
+      new Date((latest + BATCH_WINDOW_PADDING) * 1000)
+    );
+
+    // Merge stored and supplied prices, one per timestamp, sorted ascending
+    const byTimestamp = new Map<number, PricePoint>();
+    stored.forEach(price => byTimestamp.set(price.timestamp, { timestamp: price.timestamp, price: price.price }));
+    knownPrices.forEach(point => byTimestamp.set(point.timestamp, point));
+    const points = [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+
+    // Visit queries in time order; afterIndex only ever moves forward
+    const order = timestamps.map((_, index) => index).sort((a, b) => timestamps[a] - timestamps[b]);
+    let afterIndex = 0;
+
+    for (const index of order) {
+      const queryTimestamp = timestamps[index];
+      while (afterIndex < points.length && points[afterIndex].timestamp <= queryTimestamp) {
+        afterIndex++;
+      }
+      results[index] = interpolateAt(points, afterIndex, queryTimestamp, method);
+    }
+
+    const interpolated = results.filter(result => result !== null).length;
+    logger.info(`Batch interpolated ${interpolated}/${timestamps.length} prices for ${token} on ${network} from ${points.length} known prices (${method})`);
+  } catch (error) {
+    logger.error('Error in batchInterpolatePrice:', error);
+  }
+
   return results;
 }
 
@@ -185,40 +577,43 @@ export async function batchInterpolatePrice(
  * 
  * @param token - Token symbol
  * @param network - Network name
- * @returns Statistics about available data points
+ * @returns Statistics about available data points, gaps in seconds
  */
 export async function getInterpolationStats(
   token: string,
   network: string
-): Promise<{
-  dataPoints: number;
-  dateRange: {
-    earliest: number;
-    latest: number;
-    span: number;
-  } | null;
-  averageGap: number;
-}> {
+): Promise<InterpolationStats> {
   try {
-    // This would require additional queries to get full statistics
-    // For now, return basic stats
+    const coverage = await mongoService.getPriceCoverage(token, network);
+
+    if (!coverage) {
+      return { ...EMPTY_STATS };
+    }
+
     return {
-      dataPoints: 0,
-      dateRange: null,
-      averageGap: 0
+      dataPoints: coverage.count,
+      dateRange: {
+        earliest: coverage.earliest,
+        latest: coverage.latest,
+        span: coverage.latest - coverage.earliest
+      },
+      averageGap: Math.round(coverage.averageGap ?? 0),
+      maxGap: coverage.maxGap ?? 0,
+      interpolatedShare: coverage.interpolated / coverage.count
     };
   } catch (error) {
     logger.error('Error getting interpolation stats:', error);
-    return {
-      dataPoints: 0,
-      dateRange: null,
-      averageGap: 0
-    };
+    return { ...EMPTY_STATS };
   }
 }
 
 const interpolationService = {
   interpolatePrice,
+  interpolateSeries,
+  interpolateBetween,
+  extrapolatePrice,
+  extrapolateSeries,
+  getInterpolationBasis,
   batchInterpolatePrice,
   getInterpolationStats
 };
@@ -1,5 +1,28 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import logger from '../utils/logger';
+import {
+  AggregationMethod,
+  BlockInfo,
+  Candle,
+  InterpolationMethod,
+  JobData,
+  PriceQuote,
+  QuarantineEntry,
+  SourceType,
+  TokenInfo,
+  AGGREGATION_METHODS,
+  INTERPOLATION_METHODS,
+  PRICE_PROVIDER_NAMES
+} from '../types';
+
+// Extrapolated prices are estimates beyond the known data and are never stored
+export type StoredSourceType = Exclude<SourceType, 'cache' | 'extrapolated'>;
+
+// Known price an interpolated price was derived from
+export interface StoredPriceAnchor {
+  timestamp: number; // Unix timestamp
+  price: number;
+}
 
 // Interface for Price document
 export interface IPriceDocument extends Document {
@@ -8,11 +31,33 @@ export interface IPriceDocument extends Document {
   date: string; // ISO string
   timestamp: number; // Unix timestamp
   price: number;
-  source: 'alchemy' | 'interpolated';
+  source: StoredSourceType;
+  interpolationMethod?: InterpolationMethod; // set when source is 'interpolated'
+  confidence?: number; // 0-1
+  staleness?: number; // seconds to the nearest known price
+  basis?: {
+    before?: StoredPriceAnchor | null;
+    after?: StoredPriceAnchor | null;
+  };
+  aggregation?: AggregationMethod; // set when source is 'aggregated'
+  quotes?: PriceQuote[];
+  divergence?: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const PriceAnchorSchema = new Schema<StoredPriceAnchor>({
+  timestamp: { type: Number, required: true },
+  price: { type: Number, required: true }
+}, { _id: false });
+
+const PriceQuoteSchema = new Schema<PriceQuote>({
+  source: { type: String, enum: PRICE_PROVIDER_NAMES, required: true },
+  price: { type: Number, required: true }
+}, { _id: false });
+
 // Price schema
 const PriceSchema = new Schema<IPriceDocument>({
   token: {
@@ -46,8 +91,37 @@ const PriceSchema = new Schema<IPriceDocument>({
   },
   source: {
     type: String,
-    enum: ['alchemy', 'interpolated'],
+    enum: ['alchemy', 'interpolated', 'aggregated', ...PRICE_PROVIDER_NAMES],
     default: 'alchemy'
+  },
+  interpolationMethod: {
+    type: String,
+    enum: INTERPOLATION_METHODS
+  },
+  confidence: {
+    type: Number,
+    min: 0,
+    max: 1
+  },
+  staleness: {
+    type: Number,
+    min: 0
+  },
+  basis: {
+    before: { type: PriceAnchorSchema, default: undefined },
+    after: { type: PriceAnchorSchema, default: undefined }
+  },
+  aggregation: {
+    type: String,
+    enum: AGGREGATION_METHODS
+  },
+  quotes: {
+    type: [PriceQuoteSchema],
+    default: undefined
+  },
+  divergence: {
+    type: Number,
+    min: 0
   }
 }, {
   timestamps: true,
@@ -96,6 +170,258 @@ PriceSchema.methods.toJSON = function() {
 // Create and export the model
 export const Price = mongoose.model<IPriceDocument>('Price', PriceSchema);
 
+// Interface for Token document (registry entries added through the admin API)
+export interface ITokenDocument extends Document, Omit<TokenInfo, 'providerIds'> {
+  providerIds: Map<string, string>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Token schema
+const TokenSchema = new Schema<ITokenDocument>({
+  symbol: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  address: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  decimals: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  network: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  providerIds: {
+    type: Map,
+    of: String,
+    default: {}
+  }
+}, {
+  timestamps: true,
+  collection: 'tokens'
+});
+
+TokenSchema.index({ network: 1, address: 1 }, { unique: true });
+
+export const Token = mongoose.model<ITokenDocument>('Token', TokenSchema);
+
+// Interface for ScheduledJob document (_id is the job UUID)
+export interface IScheduledJobDocument extends Document<string> {
+  token: string;
+  network: string;
+  interval: string;
+  timezone?: string;
+  enabled: boolean;
+  lastRun?: Date;
+  nextRun?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ScheduledJob schema
+const ScheduledJobSchema = new Schema<IScheduledJobDocument>({
+  _id: {
+    type: String,
+    required: true
+  },
+  token: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true
+  },
+  network: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  interval: {
+    type: String,
+    required: true
+  },
+  timezone: String,
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  lastRun: Date,
+  nextRun: Date
+}, {
+  timestamps: true,
+  collection: 'scheduled_jobs'
+});
+
+// One schedule per token and network
+ScheduledJobSchema.index({ token: 1, network: 1 }, { unique: true });
+
+export const ScheduledJob = mongoose.model<IScheduledJobDocument>('ScheduledJob', ScheduledJobSchema);
+
+// Interface for QuarantinedPrice document (ingested prices rejected by the outlier guard)
+export interface IQuarantinedPriceDocument extends Document {
+  token: string;
+  network: string;
+  date: string; // ISO string
+  timestamp: number; // Unix timestamp
+  price: number;
+  source: StoredSourceType;
+  reasons: string[];
+  median: number | null;
+  mad: number | null;
+  score: number | null;
+  neighbours: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// QuarantinedPrice schema
+const QuarantinedPriceSchema = new Schema<IQuarantinedPriceDocument>({
+  token: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true
+  },
+  network: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  date: {
+    type: String,
+    required: true
+  },
+  timestamp: {
+    type: Number,
+    required: true
+  },
+  price: {
+    type: Number,
+    required: true
+  },
+  source: {
+    type: String,
+    enum: ['alchemy', 'aggregated', ...PRICE_PROVIDER_NAMES],
+    required: true
+  },
+  reasons: {
+    type: [String],
+    default: []
+  },
+  median: Number,
+  mad: Number,
+  score: Number,
+  neighbours: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true,
+  collection: 'quarantined_prices'
+});
+
+// A point quarantined again replaces the earlier entry
+QuarantinedPriceSchema.index({ token: 1, network: 1, timestamp: 1 }, { unique: true });
+QuarantinedPriceSchema.index({ createdAt: -1 });
+
+export const QuarantinedPrice = mongoose.model<IQuarantinedPriceDocument>('QuarantinedPrice', QuarantinedPriceSchema);
+
+// Interface for Block document (block numbers and timestamps seen by the block lookup)
+export interface IBlockDocument extends Document {
+  network: string;
+  number: number;
+  timestamp: number; // Unix timestamp
+}
+
+// Block schema
+const BlockSchema = new Schema<IBlockDocument>({
+  network: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  number: {
+    type: Number,
+    required: true
+  },
+  timestamp: {
+    type: Number,
+    required: true
+  }
+}, {
+  collection: 'blocks'
+});
+
+BlockSchema.index({ network: 1, number: 1 }, { unique: true });
+BlockSchema.index({ network: 1, timestamp: 1, number: 1 });
+
+export const Block = mongoose.model<IBlockDocument>('Block', BlockSchema);
+
+/**
+ * Check whether an error is a MongoDB duplicate key error
+ */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as any).code === 11000;
+}
+
+function toJobData(doc: IScheduledJobDocument): JobData {
+  return {
+    id: doc._id as string,
+    token: doc.token,
+    network: doc.network,
+    interval: doc.interval,
+    timezone: doc.timezone,
+    enabled: doc.enabled,
+    createdAt: doc.createdAt.toISOString(),
+    lastRun: doc.lastRun?.toISOString(),
+    nextRun: doc.nextRun?.toISOString()
+  };
+}
+
+function toBlockInfo(doc: IBlockDocument): BlockInfo {
+  return {
+    network: doc.network,
+    number: doc.number,
+    timestamp: doc.timestamp
+  };
+}
+
+function toQuarantineEntry(doc: IQuarantinedPriceDocument): QuarantineEntry {
+  return {
+    id: String(doc._id),
+    token: doc.token,
+    network: doc.network,
+    timestamp: doc.date,
+    price: doc.price,
+    source: doc.source,
+    reasons: doc.reasons,
+    median: doc.median ?? null,
+    mad: doc.mad ?? null,
+    score: doc.score ?? null,
+    neighbours: doc.neighbours,
+    quarantinedAt: doc.updatedAt.toISOString()
+  };
+}
+
 // MongoDB connection class
 class MongoDBService {
   private isConnected: boolean = false;
@@ -154,7 +480,7 @@ class MongoDBService {
       const price = new Price(priceData);
       return await price.save();
     } catch (error) {
-      if (error instanceof Error && error.name === 'MongoError' && (error as any).code === 11000) {
+      if (isDuplicateKeyError(error)) {
         // Duplicate key error - price already exists
         logger.warn(`Price already exists for ${priceData.token} on ${priceData.network} at ${priceData.timestamp}`);
         throw new Error('Price data already exists for this timestamp');
@@ -197,6 +523,30 @@ class MongoDBService {
     }
   }
 
+  /**
+   * Find up to `count` stored prices at or before a timestamp and `count` after it
+   * @returns Prices sorted by ascending timestamp
+   */
+  async findPricesAround(token: string, network: string, timestamp: number, count: number): Promise<IPriceDocument[]> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping surrounding prices query');
+      return [];
+    }
+
+    try {
+      const filter = { token: token.toUpperCase(), network: network.toLowerCase() };
+      const [before, after] = await Promise.all([
+        Price.find({ ...filter, timestamp: { $lte: timestamp } }).sort({ timestamp: -1 }).limit(count),
+        Price.find({ ...filter, timestamp: { $gt: timestamp } }).sort({ timestamp: 1 }).limit(count)
+      ]);
+      return [...before.reverse(), ...after];
+    } catch (error) {
+      logger.error('Error finding surrounding prices:', error);
+      return [];
+    }
+  }
+
   async savePrices(prices: Partial<IPriceDocument>[]): Promise<IPriceDocument[]> {
     // Check if MongoDB is connected
     if (!this.isReady()) {
@@ -219,6 +569,12 @@ class MongoDBService {
   }
 
   async getPriceHistory(token: string, network: string, startDate: Date, endDate: Date): Promise<IPriceDocument[]> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping price history query');
+      return [];
+    }
+
     return await Price.find({
       token: token.toUpperCase(),
       network: network.toLowerCase(),
@@ -229,12 +585,432 @@ class MongoDBService {
     }).sort({ timestamp: 1 });
   }
 
+  async getTokens(): Promise<TokenInfo[]> {
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping token query');
+      return [];
+    }
+
+    try {
+      const tokens = await Token.find().lean();
+      return tokens.map(token => ({
+        symbol: token.symbol,
+        name: token.name,
+        address: token.address,
+        decimals: token.decimals,
+        network: token.network,
+        providerIds: token.providerIds as unknown as TokenInfo['providerIds']
+      }));
+    } catch (error) {
+      logger.error('Error fetching tokens:', error);
+      return [];
+    }
+  }
+
+  async upsertToken(tokenInfo: TokenInfo): Promise<ITokenDocument | null> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping token upsert');
+      return null;
+    }
+
+    const address = tokenInfo.address.toLowerCase();
+    const network = tokenInfo.network.toLowerCase();
+
+    const token = await Token.findOneAndUpdate(
+      { network, address },
+      { ...tokenInfo, address, network },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    return token;
+  }
+
+  /**
+   * Aggregate stored prices into OHLC candles of intervalSeconds, aligned to the Unix epoch
+   */
+  async getCandles(token: string, network: string, startDate: Date, endDate: Date, intervalSeconds: number): Promise<Candle[]> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping candles query');
+      return [];
+    }
+
+    const buckets = await Price.aggregate<{
+      _id: number;
+      open: number;
+      high: number;
+      low: number;
+      close: number;
+      samples: number;
+      interpolatedSamples: number;
+    }>([
+      {
+        $match: {
+          token: token.toUpperCase(),
+          network: network.toLowerCase(),
+          timestamp: {
+            $gte: Math.floor(startDate.getTime() / 1000),
+            $lte: Math.floor(endDate.getTime() / 1000)
+          }
+        }
+      },
+      { $sort: { timestamp: 1 } },
+      {
+        $group: {
+          _id: { $subtract: ['$timestamp', { $mod: ['$timestamp', intervalSeconds] }] },
+          open: { $first: '$price' },
+          high: { $max: '$price' },
+          low: { $min: '$price' },
+          close: { $last: '$price' },
+          samples: { $sum: 1 },
+          interpolatedSamples: {
+            $sum: { $cond: [{ $eq: ['$source', 'interpolated'] }, 1, 0] }
+          }
+        }
+      },
+      { $sort: { _id: 1 } }
+    ]);
+
+    return buckets.map(bucket => ({
+      timestamp: new Date(bucket._id * 1000).toISOString(),
+      open: bucket.open,
+      high: bucket.high,
+      low: bucket.low,
+      close: bucket.close,
+      samples: bucket.samples,
+      interpolated: bucket.interpolatedSamples > 0
+    }));
+  }
+
+  /**
+   * Summarise the stored prices of a token: count, range, gaps between consecutive prices
+   * and how many were interpolated. Gaps need $setWindowFields (MongoDB 5.0+).
+   */
+  async getPriceCoverage(token: string, network: string): Promise<{
+    count: number;
+    earliest: number;
+    latest: number;
+    averageGap: number | null;
+    maxGap: number | null;
+    interpolated: number;
+  } | null> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping coverage query');
+      return null;
+    }
+
+    const [coverage] = await Price.aggregate<{
+      count: number;
+      earliest: number;
+      latest: number;
+      averageGap: number | null;
+      maxGap: number | null;
+      interpolated: number;
+    }>([
+      { $match: { token: token.toUpperCase(), network: network.toLowerCase() } },
+      {
+        $setWindowFields: {
+          sortBy: { timestamp: 1 },
+          output: {
+            previousTimestamp: { $shift: { output: '$timestamp', by: -1 } }
+          }
+        }
+      },
+      {
+        $group: {
+          _id: null,
+          count: { $sum: 1 },
+          earliest: { $min: '$timestamp' },
+          latest: { $max: '$timestamp' },
+          // The first price has no predecessor; null gaps are ignored by $avg and $max
+          averageGap: { $avg: { $subtract: ['$timestamp', '$previousTimestamp'] } },
+          maxGap: { $max: { $subtract: ['$timestamp', '$previousTimestamp'] } },
+          interpolated: {
+            $sum: { $cond: [{ $eq: ['$source', 'interpolated'] }, 1, 0] }
+          }
+        }
+      },
+      { $project: { _id: 0 } }
+    ]);
+
+    return coverage || null;
+  }
+
+  /**
+   * Count stored and interpolated prices per UTC day
+   */
+  async getDailyPriceCounts(token: string, network: string, startDate: Date, endDate: Date): Promise<Array<{
+    date: string;
+    samples: number;
+    interpolated: number;
+  }>> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping daily counts query');
+      return [];
+    }
+
+    const days = await Price.aggregate<{ _id: number; samples: number; interpolated: number }>([
+      {
+        $match: {
+          token: token.toUpperCase(),
+          network: network.toLowerCase(),
+          timestamp: {
+            $gte: Math.floor(startDate.getTime() / 1000),
+            $lte: Math.floor(endDate.getTime() / 1000)
+          }
+        }
+      },
+      {
+        $group: {
+          _id: { $subtract: ['$timestamp', { $mod: ['$timestamp', SECONDS_PER_DAY] }] },
+          samples: { $sum: 1 },
+          interpolated: {
+            $sum: { $cond: [{ $eq: ['$source', 'interpolated'] }, 1, 0] }
+          }
+        }
+      },
+      { $sort: { _id: 1 } }
+    ]);
+
+    return days.map(day => ({
+      date: new Date(day._id * 1000).toISOString().slice(0, 10),
+      samples: day.samples,
+      interpolated: day.interpolated
+    }));
+  }
+
+  async createScheduledJob(job: Omit<JobData, 'createdAt'>): Promise<JobData | null> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping scheduled job creation');
+      return null;
+    }
+
+    const doc = await ScheduledJob.create({
+      _id: job.id,
+      token: job.token,
+      network: job.network,
+      interval: job.interval,
+      timezone: job.timezone,
+      enabled: job.enabled,
+      lastRun: job.lastRun ? new Date(job.lastRun) : undefined,
+      nextRun: job.nextRun ? new Date(job.nextRun) : undefined
+    });
+    return toJobData(doc);
+  }
+
+  async getScheduledJobs(): Promise<JobData[]> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping scheduled job query');
+      return [];
+    }
+
+    const docs = await ScheduledJob.find().sort({ createdAt: 1 });
+    return docs.map(toJobData);
+  }
+
+  async getScheduledJob(jobId: string): Promise<JobData | null> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping scheduled job query');
+      return null;
+    }
+
+    const doc = await ScheduledJob.findById(jobId);
+    return doc ? toJobData(doc) : null;
+  }
+
+  async findScheduledJobByToken(token: string, network: string): Promise<JobData | null> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping scheduled job query');
+      return null;
+    }
+
+    const doc = await ScheduledJob.findOne({
+      token: token.toUpperCase(),
+      network: network.toLowerCase()
+    });
+    return doc ? toJobData(doc) : null;
+  }
+
+  async updateScheduledJob(
+    jobId: string,
+    updates: Partial<Pick<JobData, 'enabled' | 'interval' | 'lastRun'>> & { nextRun?: string | null }
+  ): Promise<JobData | null> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping scheduled job update');
+      return null;
+    }
+
+    const doc = await ScheduledJob.findByIdAndUpdate(
+      jobId,
+      {
+        ...updates,
+        ...(updates.lastRun !== undefined && { lastRun: new Date(updates.lastRun) }),
+        ...(updates.nextRun !== undefined && { nextRun: updates.nextRun ? new Date(updates.nextRun) : null })
+      },
+      { new: true, runValidators: true }
+    );
+    return doc ? toJobData(doc) : null;
+  }
+
+  async deleteScheduledJob(jobId: string): Promise<boolean> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping scheduled job deletion');
+      return false;
+    }
+
+    const result = await ScheduledJob.deleteOne({ _id: jobId });
+    return result.deletedCount > 0;
+  }
+
+  /**
+   * Store a rejected price for review, replacing an earlier entry for the same timestamp
+   */
+  async quarantinePrice(entry: Omit<QuarantineEntry, 'id' | 'quarantinedAt'> & { source: StoredSourceType }): Promise<QuarantineEntry | null> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping quarantine');
+      return null;
+    }
+
+    const token = entry.token.toUpperCase();
+    const network = entry.network.toLowerCase();
+    const date = new Date(entry.timestamp);
+    const timestamp = Math.floor(date.getTime() / 1000);
+
+    const doc = await QuarantinedPrice.findOneAndUpdate(
+      { token, network, timestamp },
+      {
+        ...entry,
+        token,
+        network,
+        date: date.toISOString(),
+        timestamp
+      },
+      { new: true, upsert: true, runValidators: true }
+    );
+    return toQuarantineEntry(doc);
+  }
+
+  async getQuarantinedPrices(
+    filter: { token?: string; network?: string },
+    limit: number,
+    offset: number
+  ): Promise<{ prices: QuarantineEntry[]; total: number }> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping quarantined prices query');
+      return { prices: [], total: 0 };
+    }
+
+    const query = {
+      ...(filter.token && { token: filter.token.toUpperCase() }),
+      ...(filter.network && { network: filter.network.toLowerCase() })
+    };
+
+    const [docs, total] = await Promise.all([
+      QuarantinedPrice.find(query).sort({ createdAt: -1 }).skip(offset).limit(limit),
+      QuarantinedPrice.countDocuments(query)
+    ]);
+    return { prices: docs.map(toQuarantineEntry), total };
+  }
+
+  async getQuarantinedPrice(id: string): Promise<QuarantineEntry | null> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping quarantined price query');
+      return null;
+    }
+
+    const doc = await QuarantinedPrice.findById(id);
+    return doc ? toQuarantineEntry(doc) : null;
+  }
+
+  async deleteQuarantinedPrice(id: string): Promise<boolean> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping quarantined price deletion');
+      return false;
+    }
+
+    const result = await QuarantinedPrice.deleteOne({ _id: id });
+    return result.deletedCount > 0;
+  }
+
+  async findBlock(network: string, number: number): Promise<BlockInfo | null> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping block query');
+      return null;
+    }
+
+    try {
+      const doc = await Block.findOne({ network: network.toLowerCase(), number });
+      return doc ? toBlockInfo(doc) : null;
+    } catch (error) {
+      logger.error('Error finding block:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Find the last stored block at or before a timestamp and the first stored block after it
+   */
+  async findBlockBounds(network: string, timestamp: number): Promise<[BlockInfo | null, BlockInfo | null]> {
+    // Check if MongoDB is connected
+    if (!this.isReady()) {
+      logger.warn('MongoDB not connected, skipping block bounds query');
+      return [null, null];
+    }
+
+    try {
+      const filter = { network: network.toLowerCase() };
+      const [before, after] = await Promise.all([
+        Block.findOne({ ...filter, timestamp: { $lte: timestamp } }).sort({ timestamp: -1, number: -1 }),
+        Block.findOne({ ...filter, timestamp: { $gt: timestamp } }).sort({ timestamp: 1, number: 1 })
+      ]);
+      return [before ? toBlockInfo(before) : null, after ? toBlockInfo(after) : null];
+    } catch (error) {
+      logger.error('Error finding block bounds:', error);
+      return [null, null];
+    }
+  }
+
+  async saveBlocks(blocks: BlockInfo[]): Promise<void> {
+    // Check if MongoDB is connected
+    if (!this.isReady() || blocks.length === 0) {
+      return;
+    }
+
+    try {
+      await Block.bulkWrite(blocks.map(block => ({
+        updateOne: {
+          filter: { network: block.network.toLowerCase(), number: block.number },
+          update: { $set: { timestamp: block.timestamp } },
+          upsert: true
+        }
+      })), { ordered: false });
+    } catch (error) {
+      logger.error('Error saving blocks:', error);
+    }
+  }
+
   async savePriceHistory(priceRecords: Array<{
     token: string;
     network: string;
     date: Date;
     price: number;
     confidence: number;
+    staleness?: number;
+    basis?: IPriceDocument['basis'];
     source: string;
   }>): Promise<IPriceDocument[]> {
     try {
@@ -246,7 +1022,9 @@ class MongoDBService {
         timestamp: Math.floor(record.date.getTime() / 1000),
         date: record.date.toISOString(),
         confidence: record.confidence,
-        source: record.source as 'alchemy' | 'interpolated'
+        staleness: record.staleness,
+        basis: record.basis,
+        source: record.source as StoredSourceType
       }));
 
       return await this.savePrices(priceData);
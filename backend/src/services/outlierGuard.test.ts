@@ -0,0 +1,180 @@
+import mongoService from './mongodb';
+import outlierGuard, { GuardedPrice, scorePrice } from './outlierGuard';
+
+jest.mock('../utils/logger');
+jest.mock('./mongodb', () => ({
+  __esModule: true,
+  default: {
+    findPricesAround: jest.fn(),
+    getPriceHistory: jest.fn(),
+    quarantinePrice: jest.fn()
+  }
+}));
+
+const findPricesAround = mongoService.findPricesAround as jest.Mock;
+const getPriceHistory = mongoService.getPriceHistory as jest.Mock;
+const quarantinePrice = mongoService.quarantinePrice as jest.Mock;
+
+// Median 100, MAD 1: the robust z-score of a price is 0.6745 * |price - 100|
+const QUIET = [100, 101, 99, 100, 102, 98, 100, 101];
+
+// Median 100, MAD 10
+const VOLATILE = [100, 80, 120, 90, 110];
+
+const DAY = 24 * 60 * 60;
+
+function storedSeries(prices: number[], start: number = 0): Array<{ timestamp: number; price: number }> {
+  return prices.map((price, i) => ({ timestamp: start + i * DAY, price }));
+}
+
+describe('scorePrice', () => {
+  it('reports the median, MAD and robust z-score', () => {
+    expect(scorePrice(104, QUIET)).toEqual({
+      suspicious: false,
+      reasons: [],
+      median: 100,
+      mad: 1,
+      score: 2.7,
+      neighbours: 8
+    });
+  });
+
+  it('flags prices beyond both the score threshold and the minimum deviation', () => {
+    const check = scorePrice(111, QUIET);
+
+    expect(check.suspicious).toBe(true);
+    expect(check.score).toBe(7.42);
+    expect(check.reasons).toEqual([
+      'Robust z-score 7.4 exceeds 3.5 against 8 nearby prices',
+      'Price 111 is 11.0% away from the nearby median 100'
+    ]);
+  });
+
+  it('admits scores up to the threshold however far the price moved', () => {
+    // A score of 3.5 needs a deviation of about 51.9 when the MAD is 10
+    expect(scorePrice(151, VOLATILE)).toMatchObject({ suspicious: false, score: 3.44 });
+    expect(scorePrice(153, VOLATILE)).toMatchObject({ suspicious: true, score: 3.57 });
+    expect(scorePrice(47, VOLATILE).suspicious).toBe(true);
+  });
+
+  it('admits high scores within the minimum deviation', () => {
+    expect(scorePrice(106, QUIET)).toMatchObject({ suspicious: false, score: 4.05 });
+    // Exactly 10% away is not more than the minimum deviation
+    expect(scorePrice(110, QUIET).suspicious).toBe(false);
+    expect(scorePrice(90, QUIET).suspicious).toBe(false);
+    expect(scorePrice(89, QUIET).suspicious).toBe(true);
+  });
+
+  it('bounds the MAD for series that did not move', () => {
+    const flat = [1, 1, 1, 1, 1];
+
+    expect(scorePrice(1.002, flat)).toMatchObject({ suspicious: false, mad: 0, score: 1.35 });
+    expect(scorePrice(1.05, flat).suspicious).toBe(false);
+    expect(scorePrice(1.2, flat).suspicious).toBe(true);
+  });
+
+  it('needs at least four neighbours', () => {
+    expect(scorePrice(1000, [100, 100, 100])).toEqual({
+      suspicious: false,
+      reasons: [],
+      median: null,
+      mad: null,
+      score: null,
+      neighbours: 3
+    });
+    expect(scorePrice(1000, [100, 100, 100, 100]).suspicious).toBe(true);
+  });
+
+  it.each([0, -5, NaN, Infinity])('flags the non-positive or non-finite price %s', (price) => {
+    expect(scorePrice(price, QUIET)).toMatchObject({
+      suspicious: true,
+      reasons: [`Price ${price} is not a positive number`],
+      score: null
+    });
+    expect(scorePrice(price, []).suspicious).toBe(true);
+  });
+});
+
+describe('outlierGuard.guard', () => {
+  const timestamp = 4 * DAY + DAY / 2;
+  const candidate = (price: number): GuardedPrice => ({ timestamp, price, source: 'coingecko' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Includes an earlier price at the candidate's own timestamp, which is not a neighbour
+    findPricesAround.mockResolvedValue([...storedSeries(QUIET), { timestamp, price: 5000 }]);
+  });
+
+  it('admits ordinary prices', async () => {
+    expect(await outlierGuard.guard('ETH', 'ethereum', candidate(101))).toBe(true);
+    expect(quarantinePrice).not.toHaveBeenCalled();
+  });
+
+  it('quarantines outliers with their score', async () => {
+    expect(await outlierGuard.guard('ETH', 'ethereum', candidate(250))).toBe(false);
+    expect(quarantinePrice).toHaveBeenCalledWith(expect.objectContaining({
+      token: 'ETH',
+      network: 'ethereum',
+      timestamp: new Date(timestamp * 1000).toISOString(),
+      price: 250,
+      source: 'coingecko',
+      median: 100,
+      mad: 1,
+      neighbours: 8
+    }));
+  });
+
+  it('admits prices when stored prices cannot be read', async () => {
+    findPricesAround.mockRejectedValue(new Error('Connection lost'));
+    expect(await outlierGuard.guard('ETH', 'ethereum', candidate(250))).toBe(true);
+  });
+});
+
+describe('outlierGuard.guardBatch', () => {
+  const candidates = (prices: number[], start: number): GuardedPrice[] =>
+    storedSeries(prices, start).map(point => ({ ...point, source: 'coingecko' }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getPriceHistory.mockResolvedValue(storedSeries(QUIET));
+  });
+
+  it('returns flags aligned with the candidates, quarantining only outliers', async () => {
+    const batch = candidates([101, 400, 99, 100], 8 * DAY).reverse();
+    const admitted = await outlierGuard.guardBatch('ETH', 'ethereum', batch);
+
+    expect(admitted).toEqual([true, true, false, true]);
+    expect(quarantinePrice).toHaveBeenCalledTimes(1);
+    expect(quarantinePrice).toHaveBeenCalledWith(expect.objectContaining({ price: 400 }));
+  });
+
+  it('compares new prices with each other when nothing is stored', async () => {
+    getPriceHistory.mockResolvedValue([]);
+    const admitted = await outlierGuard.guardBatch('ETH', 'ethereum', candidates([100, 101, 99, 100, 500, 100, 101], 0));
+
+    expect(admitted).toEqual([true, true, true, true, false, true, true]);
+  });
+
+  it('admits everything without enough neighbours', async () => {
+    getPriceHistory.mockResolvedValue([]);
+    expect(await outlierGuard.guardBatch('ETH', 'ethereum', candidates([100, 5000, 100], 0))).toEqual([true, true, true]);
+  });
+
+  it('loads stored prices once for a padded window', async () => {
+    await outlierGuard.guardBatch('ETH', 'ethereum', candidates([100, 101], 20 * DAY));
+
+    expect(getPriceHistory).toHaveBeenCalledTimes(1);
+    expect(getPriceHistory).toHaveBeenCalledWith(
+      'ETH',
+      'ethereum',
+      new Date((20 * DAY - 7 * DAY) * 1000),
+      new Date((21 * DAY + 7 * DAY) * 1000)
+    );
+  });
+
+  it('admits everything when stored prices cannot be read', async () => {
+    getPriceHistory.mockRejectedValue(new Error('Connection lost'));
+    expect(await outlierGuard.guardBatch('ETH', 'ethereum', candidates([100, 5000], 0))).toEqual([true, true]);
+    expect(await outlierGuard.guardBatch('ETH', 'ethereum', [])).toEqual([]);
+  });
+});
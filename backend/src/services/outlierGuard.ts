@@ -0,0 +1,223 @@
+import mongoService, { IPriceDocument, StoredSourceType } from './mongodb';
+import logger from '../utils/logger';
+import { median } from '../utils/statistics';
+import { QuarantineEntry } from '../types';
+
+/**
+ * Outlier guard for ingested prices
+ *
+ * Compares a new price with the stored prices around it using the median and the
+ * median absolute deviation (MAD), which a single bad point cannot drag along.
+ * A price is suspicious when its robust z-score exceeds OUTLIER_THRESHOLD and it
+ * is also more than OUTLIER_MIN_DEVIATION away from the median, so that ordinary
+ * moves in very quiet series are not flagged. Suspicious prices are quarantined
+ * for review instead of being stored, served or interpolated from.
+ */
+
+const OUTLIER_GUARD_ENABLED = process.env.OUTLIER_GUARD_ENABLED !== 'false';
+const OUTLIER_THRESHOLD = parseFloat(process.env.OUTLIER_THRESHOLD || '3.5');
+const OUTLIER_MIN_DEVIATION = parseFloat(process.env.OUTLIER_MIN_DEVIATION || '0.1'); // 10% of the median
+
+// Known prices on each side of a new price it is compared with
+const OUTLIER_WINDOW = 5;
+
+// Fewer known prices than this are not enough to call anything an outlier
+const MIN_NEIGHBOURS = 4;
+
+// Scales the MAD to the standard deviation of normally distributed data
+const MAD_SCALE = 0.6745;
+
+// Lower bound for the MAD relative to the median, for series that did not move at all (stablecoins)
+const MIN_MAD_RATIO = 0.001;
+
+// Stored prices loaded beyond either end of a batch to find neighbours for its outermost prices
+const BATCH_WINDOW_PADDING = 7 * 24 * 60 * 60; // 7 days in seconds
+
+export interface GuardedPrice {
+  timestamp: number; // Unix timestamp
+  price: number;
+  source: StoredSourceType;
+}
+
+export interface OutlierCheck {
+  suspicious: boolean;
+  reasons: string[];
+  median: number | null;
+  mad: number | null;
+  score: number | null;
+  neighbours: number;
+}
+
+/**
+ * Score a price against known prices around it
+ *
+ * @param price - Price to check
+ * @param neighbours - Known prices near it, in any order
+ */
+export function scorePrice(price: number, neighbours: number[]): OutlierCheck {
+  if (!Number.isFinite(price) || price <= 0) {
+    return {
+      suspicious: true,
+      reasons: [`Price ${price} is not a positive number`],
+      median: null,
+      mad: null,
+      score: null,
+      neighbours: neighbours.length
+    };
+  }
+
+  if (neighbours.length < MIN_NEIGHBOURS) {
+    return { suspicious: false, reasons: [], median: null, mad: null, score: null, neighbours: neighbours.length };
+  }
+
+  const center = median(neighbours);
+  const mad = median(neighbours.map(value => Math.abs(value - center)));
+  const deviation = Math.abs(price - center);
+  const score = MAD_SCALE * deviation / Math.max(mad, center * MIN_MAD_RATIO);
+  const relativeDeviation = center > 0 ? deviation / center : Infinity;
+
+  const suspicious = score > OUTLIER_THRESHOLD && relativeDeviation > OUTLIER_MIN_DEVIATION;
+  const reasons = suspicious
+    ? [
+      `Robust z-score ${score.toFixed(1)} exceeds ${OUTLIER_THRESHOLD} against ${neighbours.length} nearby prices`,
+      `Price ${price} is ${(relativeDeviation * 100).toFixed(1)}% away from the nearby median ${center}`
+    ]
+    : [];
+
+  return {
+    suspicious,
+    reasons,
+    median: center,
+    mad,
+    score: Math.round(score * 100) / 100,
+    neighbours: neighbours.length
+  };
+}
+
+class OutlierGuardService {
+  /**
+   * Check a new price against the stored prices around it, quarantining it if suspicious
+   * @returns True if the price may be stored and served
+   */
+  async guard(token: string, network: string, candidate: GuardedPrice): Promise<boolean> {
+    if (!OUTLIER_GUARD_ENABLED) {
+      return true;
+    }
+
+    try {
+      const stored = await mongoService.findPricesAround(token, network, candidate.timestamp, OUTLIER_WINDOW);
+      const neighbours = stored
+        .filter(price => price.timestamp !== candidate.timestamp)
+        .map(price => price.price);
+
+      const check = scorePrice(candidate.price, neighbours);
+      if (!check.suspicious) {
+        return true;
+      }
+
+      await this.quarantine(token, network, candidate, check);
+      return false;
+    } catch (error) {
+      // A failing guard must not block ingestion
+      logger.error('Error in outlier guard:', error);
+      return true;
+    }
+  }
+
+  /**
+   * Check many new prices of one token from a single range query, quarantining the suspicious ones
+   * Each price is compared with its nearest stored prices and the other prices of the batch.
+   *
+   * @returns Flags aligned with candidates, true where the price may be stored
+   */
+  async guardBatch(token: string, network: string, candidates: GuardedPrice[]): Promise<boolean[]> {
+    const admitted: boolean[] = new Array(candidates.length).fill(true);
+    if (!OUTLIER_GUARD_ENABLED || candidates.length === 0) {
+      return admitted;
+    }
+
+    try {
+      const timestamps = candidates.map(candidate => candidate.timestamp);
+      const stored = await mongoService.getPriceHistory(
+        token,
+        network,
+        new Date((Math.min(...timestamps) - BATCH_WINDOW_PADDING) * 1000),
+        new Date((Math.max(...timestamps) + BATCH_WINDOW_PADDING) * 1000)
+      );
+
+      // Stored and batch prices in time order; index is set on batch prices
+      const series: Array<{ timestamp: number; price: number; index?: number }> = [
+        ...stored.map(price => ({ timestamp: price.timestamp, price: price.price })),
+        ...candidates.map((candidate, index) => ({ timestamp: candidate.timestamp, price: candidate.price, index }))
+      ].sort((a, b) => a.timestamp - b.timestamp);
+
+      for (let position = 0; position < series.length; position++) {
+        const { index } = series[position];
+        if (index === undefined) {
+          continue;
+        }
+
+        const neighbours = [
+          ...series.slice(Math.max(0, position - OUTLIER_WINDOW), position),
+          ...series.slice(position + 1, position + 1 + OUTLIER_WINDOW)
+        ].map(point => point.price);
+
+        const check = scorePrice(candidates[index].price, neighbours);
+        if (check.suspicious) {
+          admitted[index] = false;
+          await this.quarantine(token, network, candidates[index], check);
+        }
+      }
+    } catch (error) {
+      logger.error('Error in batch outlier guard:', error);
+    }
+
+    return admitted;
+  }
+
+  /**
+   * Store a reviewed quarantined price as a regular price and drop it from quarantine
+   */
+  async release(entry: QuarantineEntry): Promise<IPriceDocument> {
+    const date = new Date(entry.timestamp);
+
+    const price = await mongoService.createPrice({
+      token: entry.token,
+      network: entry.network,
+      date: date.toISOString(),
+      timestamp: Math.floor(date.getTime() / 1000),
+      price: entry.price,
+      source: entry.source as StoredSourceType,
+      confidence: 1,
+      staleness: 0
+    });
+    await mongoService.deleteQuarantinedPrice(entry.id);
+
+    logger.info(`Released quarantined price for ${entry.token} on ${entry.network} at ${entry.timestamp}`);
+    return price;
+  }
+
+  private async quarantine(token: string, network: string, candidate: GuardedPrice, check: OutlierCheck): Promise<void> {
+    logger.warn(`Quarantined ${candidate.source} price for ${token} on ${network} at ${candidate.timestamp}: ${check.reasons.join('; ')}`);
+
+    try {
+      await mongoService.quarantinePrice({
+        token,
+        network,
+        timestamp: new Date(candidate.timestamp * 1000).toISOString(),
+        price: candidate.price,
+        source: candidate.source,
+        reasons: check.reasons,
+        median: check.median,
+        mad: check.mad,
+        score: check.score,
+        neighbours: check.neighbours
+      });
+    } catch (error) {
+      logger.error('Failed to store quarantined price:', error);
+    }
+  }
+}
+
+const outlierGuard = new OutlierGuardService();
+export default outlierGuard;
@@ -0,0 +1,210 @@
+import redisService from './redis';
+import tieredCache from './tieredCache';
+import priceCache from './priceCache';
+import { PriceResponse, SourceType } from '../types';
+
+jest.mock('../utils/logger');
+jest.mock('./redis', () => ({
+  __esModule: true,
+  default: {
+    isReady: jest.fn(),
+    acquireLock: jest.fn(),
+    releaseLock: jest.fn(),
+    exists: jest.fn()
+  }
+}));
+jest.mock('./tieredCache', () => ({
+  __esModule: true,
+  default: {
+    get: jest.fn(),
+    set: jest.fn(),
+    delPattern: jest.fn()
+  }
+}));
+
+const acquireLock = redisService.acquireLock as jest.Mock;
+const releaseLock = redisService.releaseLock as jest.Mock;
+const cacheSet = tieredCache.set as jest.Mock;
+const delPattern = tieredCache.delPattern as jest.Mock;
+
+// 2026-03-10T12:00:00Z, a multiple of both buckets
+const NOW = 1773144000;
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const iso = (seconds: number): string => new Date(seconds * 1000).toISOString();
+
+const response = (timestamp: number, source: SourceType = 'coingecko'): PriceResponse => ({
+  token: 'ETH',
+  network: 'ethereum',
+  timestamp: iso(timestamp),
+  price: 4500,
+  source
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.useFakeTimers({ now: NOW * 1000 });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('priceCache.getPolicy', () => {
+  it.each([
+    ['in the future', NOW + MINUTE, 30, 30],
+    ['now', NOW, 30, 30],
+    ['exactly 5 minutes old', NOW - 5 * MINUTE, 30, 30],
+    ['just over 5 minutes old', NOW - 5 * MINUTE - 1, 60, 300],
+    ['an hour old', NOW - HOUR, 60, 300],
+    ['exactly 24 hours old', NOW - DAY, 60, 300],
+    ['just over 24 hours old', NOW - DAY - 1, 60, 2592000],
+    ['a year old', NOW - 365 * DAY, 60, 2592000]
+  ])('uses a %s price\'s bucket and TTL', (_age, timestamp, bucket, ttl) => {
+    expect(priceCache.getPolicy(timestamp)).toEqual({ bucket, ttl });
+  });
+});
+
+describe('priceCache.getKey', () => {
+  it('lowercases the token and network', () => {
+    expect(priceCache.getKey({ token: '0xAbC', network: 'Ethereum', timestamp: iso(NOW - HOUR) }))
+      .toBe(`price:0xabc:ethereum:${NOW - HOUR}`);
+  });
+
+  it('uses the current time without a timestamp', () => {
+    expect(priceCache.getKey({ token: 'ETH', network: 'ethereum' })).toBe(`price:eth:ethereum:${NOW}`);
+  });
+
+  it('shares 30 second buckets for live prices', () => {
+    const start = NOW - 2 * MINUTE;
+    const key = (offset: number): string =>
+      priceCache.getKey({ token: 'ETH', network: 'ethereum', timestamp: iso(start + offset) });
+
+    expect(key(0)).toBe(`price:eth:ethereum:${start}`);
+    expect(key(29)).toBe(key(0));
+    expect(key(30)).toBe(`price:eth:ethereum:${start + 30}`);
+    expect(key(-1)).toBe(`price:eth:ethereum:${start - 30}`);
+  });
+
+  it('shares 60 second buckets for older prices', () => {
+    const start = NOW - HOUR;
+    const key = (offset: number): string =>
+      priceCache.getKey({ token: 'ETH', network: 'ethereum', timestamp: iso(start + offset) });
+
+    expect(key(30)).toBe(`price:eth:ethereum:${start}`);
+    expect(key(59)).toBe(key(0));
+    expect(key(60)).toBe(`price:eth:ethereum:${start + 60}`);
+  });
+
+  it('switches to the longer bucket past the live window', () => {
+    // 5 minutes and 15 seconds old: in the second half of a 60 second bucket
+    const timestamp = NOW - 5 * MINUTE - 15;
+    expect(priceCache.getKey({ token: 'ETH', network: 'ethereum', timestamp: iso(timestamp) }))
+      .toBe(`price:eth:ethereum:${NOW - 6 * MINUTE}`);
+  });
+
+  it('adds non-linear methods and aggregations', () => {
+    const base = { token: 'ETH', network: 'ethereum', timestamp: iso(NOW - DAY * 2) };
+    const prefix = `price:eth:ethereum:${NOW - DAY * 2}`;
+
+    expect(priceCache.getKey({ ...base, method: 'linear' })).toBe(prefix);
+    expect(priceCache.getKey({ ...base, method: 'spline' })).toBe(`${prefix}:spline`);
+    expect(priceCache.getKey({ ...base, aggregation: 'median' })).toBe(`${prefix}:aggregate:median`);
+    expect(priceCache.getKey({ ...base, method: 'previous', aggregation: 'trimmed-mean' }))
+      .toBe(`${prefix}:previous:aggregate:trimmed-mean`);
+  });
+});
+
+describe('priceCache.getFlightKey', () => {
+  const base = { token: 'ETH', network: 'ethereum', timestamp: iso(NOW - HOUR) };
+
+  it('matches the cache key without extrapolation', () => {
+    expect(priceCache.getFlightKey({ ...base, maxStaleness: 600 })).toBe(priceCache.getKey(base));
+  });
+
+  it('adds the extrapolation mode and maximum staleness', () => {
+    const key = priceCache.getKey(base);
+
+    expect(priceCache.getFlightKey({ ...base, extrapolate: 'carry', maxStaleness: 600 }))
+      .toBe(`${key}:extrapolate:carry:600`);
+    expect(priceCache.getFlightKey({ ...base, extrapolate: 'trend' })).toBe(`${key}:extrapolate:trend:`);
+  });
+});
+
+describe('priceCache.set', () => {
+  it.each([
+    [5 * MINUTE, 30],
+    [5 * MINUTE + 1, 300],
+    [DAY, 300],
+    [DAY + 1, 2592000]
+  ])('caches a price %s seconds old for %s seconds', async (age, ttl) => {
+    const timestamp = NOW - age;
+    cacheSet.mockResolvedValue(true);
+
+    expect(await priceCache.set('key', response(timestamp))).toBe(true);
+    expect(cacheSet).toHaveBeenCalledWith('key', expect.any(String), ttl);
+    expect(JSON.parse(cacheSet.mock.calls[0][1])).toEqual({
+      response: response(timestamp),
+      cachedAt: iso(NOW)
+    });
+  });
+
+  it('uses an explicit TTL', async () => {
+    await priceCache.set('key', response(NOW), 5);
+    expect(cacheSet).toHaveBeenCalledWith('key', expect.any(String), 5);
+  });
+
+  it.each<SourceType>(['extrapolated', 'cache'])('does not cache %s prices', async (source) => {
+    expect(await priceCache.set('key', response(NOW - DAY * 2, source))).toBe(false);
+    expect(cacheSet).not.toHaveBeenCalled();
+  });
+});
+
+describe('priceCache.invalidate', () => {
+  it('deletes by token and network pattern', async () => {
+    delPattern.mockResolvedValue(3);
+
+    expect(await priceCache.invalidate('ETH', 'Ethereum')).toBe(3);
+    expect(delPattern).toHaveBeenCalledWith('price:eth:ethereum:*');
+
+    await priceCache.invalidate(undefined, 'polygon');
+    expect(delPattern).toHaveBeenLastCalledWith('price:*:polygon:*');
+
+    await priceCache.invalidate();
+    expect(delPattern).toHaveBeenLastCalledWith('price:*:*:*');
+  });
+});
+
+describe('priceCache.coalesce', () => {
+  it('resolves concurrent lookups once and caches the result', async () => {
+    acquireLock.mockResolvedValue('lock-token');
+    const price = response(NOW - HOUR);
+    const resolver = jest.fn().mockResolvedValue(price);
+
+    const results = await Promise.all([
+      priceCache.coalesce('key', resolver),
+      priceCache.coalesce('key', resolver)
+    ]);
+
+    expect(results).toEqual([price, price]);
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(acquireLock).toHaveBeenCalledWith('lock:key', 10000);
+    expect(cacheSet).toHaveBeenCalledWith('key', expect.any(String), 300);
+    expect(releaseLock).toHaveBeenCalledWith('lock:key', 'lock-token');
+  });
+
+  it('keeps lookups with different flight keys apart', async () => {
+    acquireLock.mockResolvedValue(null);
+    const resolver = jest.fn().mockResolvedValue(null);
+
+    await Promise.all([
+      priceCache.coalesce('key', resolver, 'key:extrapolate:carry:'),
+      priceCache.coalesce('key', resolver)
+    ]);
+
+    expect(resolver).toHaveBeenCalledTimes(2);
+    expect(releaseLock).not.toHaveBeenCalled();
+  });
+});
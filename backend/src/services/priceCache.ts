@@ -0,0 +1,280 @@
+import redisService from './redis';
+import tieredCache, { TieredCacheMetrics } from './tieredCache';
+import logger from '../utils/logger';
+import { AggregationMethod, CacheData, ExtrapolationMode, InterpolationMethod, PriceResponse } from '../types';
+
+// Requests within the same bucket share a cached price
+const PRICE_CACHE_BUCKET = parseInt(process.env.PRICE_CACHE_BUCKET || '60'); // seconds
+const PRICE_CACHE_LIVE_BUCKET = parseInt(process.env.PRICE_CACHE_LIVE_BUCKET || '30'); // seconds
+
+// How long prices stay cached, by the age of their timestamp
+const PRICE_CACHE_LIVE_TTL = parseInt(process.env.PRICE_CACHE_LIVE_TTL || '30'); // seconds
+const PRICE_CACHE_RECENT_TTL = parseInt(process.env.PRICE_CACHE_RECENT_TTL || '300'); // 5 minutes
+const PRICE_CACHE_HISTORICAL_TTL = parseInt(process.env.PRICE_CACHE_HISTORICAL_TTL || '2592000'); // 30 days
+
+// Timestamps at most this old are live prices; older than the historical age they no longer change
+const LIVE_WINDOW = 5 * 60; // 5 minutes in seconds
+const PRICE_CACHE_HISTORICAL_AGE = parseInt(process.env.PRICE_CACHE_HISTORICAL_AGE || '86400'); // 24 hours
+
+// How long one instance may hold a price lookup before others stop waiting for it
+const PRICE_LOCK_TTL = parseInt(process.env.PRICE_LOCK_TTL || '10000'); // milliseconds
+const LOCK_POLL_INTERVAL = 100; // milliseconds
+
+// Sources that are never cached: stand-ins for missing data and responses already served from the cache
+const UNCACHED_SOURCES = ['extrapolated', 'cache'];
+
+export interface CachePolicy {
+  bucket: number; // seconds
+  ttl: number; // seconds
+}
+
+// The parts of a price request that decide its response
+export interface PriceCacheRequest {
+  token: string;
+  network: string;
+  timestamp?: string; // defaults to now
+  method?: InterpolationMethod;
+  aggregation?: AggregationMethod; // set for aggregate requests
+  extrapolate?: ExtrapolationMode; // not part of the cache key, as extrapolated prices are not cached
+  maxStaleness?: number;
+}
+
+export interface PriceCacheStats {
+  connected: boolean;
+  entries: number; // prices cached in Redis
+  lookupsInProgress: number; // lookups holding a lock, across instances
+  localLookupsInProgress: number; // lookups pending on this instance
+  keyspaceHits: number; // Redis-wide, since the server started
+  keyspaceMisses: number;
+  usedMemory: string | null;
+  tiers: TieredCacheMetrics; // lookups on this instance
+}
+
+/**
+ * Cache of complete price responses, in memory and Redis (see tieredCache)
+ *
+ * Keys are built from the normalised token and network, the requested timestamp
+ * rounded down to a bucket and the options that change the response, so GET and
+ * POST requests for the same price share an entry.
+ *
+ * Live prices (the last 5 minutes) use short buckets and expire within seconds,
+ * prices from the last day expire within minutes, and older prices, which do not
+ * change any more, are kept for PRICE_CACHE_HISTORICAL_TTL.
+ *
+ * Concurrent lookups of the same price are coalesced: within an instance they
+ * share one pending promise, and across instances a Redis lock lets one of them
+ * fetch the price while the others wait for it to appear in the cache.
+ */
+class PriceCacheService {
+  private inFlight: Map<string, Promise<PriceResponse | null>> = new Map();
+
+  /**
+   * Bucket and TTL for a price at a timestamp, given as Unix seconds
+   */
+  getPolicy(timestamp: number): CachePolicy {
+    const age = Date.now() / 1000 - timestamp;
+
+    if (age <= LIVE_WINDOW) {
+      return { bucket: PRICE_CACHE_LIVE_BUCKET, ttl: PRICE_CACHE_LIVE_TTL };
+    }
+    if (age <= PRICE_CACHE_HISTORICAL_AGE) {
+      return { bucket: PRICE_CACHE_BUCKET, ttl: PRICE_CACHE_RECENT_TTL };
+    }
+    return { bucket: PRICE_CACHE_BUCKET, ttl: PRICE_CACHE_HISTORICAL_TTL };
+  }
+
+  /**
+   * Cache key: price:{token}:{network}:{bucket}[:{method}][:aggregate:{aggregation}]
+   */
+  getKey(request: PriceCacheRequest): string {
+    const token = request.token.toLowerCase();
+    const network = request.network.toLowerCase();
+    const time = (request.timestamp ? new Date(request.timestamp).getTime() : Date.now()) / 1000;
+    const { bucket: size } = this.getPolicy(time);
+    const bucket = Math.floor(time / size) * size;
+
+    let key = `price:${token}:${network}:${bucket}`;
+
+    // Prices interpolated with a non-default method are cached separately
+    if (request.method && request.method !== 'linear') {
+      key += `:${request.method}`;
+    }
+
+    // Aggregate requests never share plain cached prices
+    if (request.aggregation) {
+      key += `:aggregate:${request.aggregation}`;
+    }
+
+    return key;
+  }
+
+  /**
+   * Key identifying a lookup in flight: the cache key plus the options that
+   * change an uncached response
+   */
+  getFlightKey(request: PriceCacheRequest): string {
+    const key = this.getKey(request);
+    return request.extrapolate ? `${key}:extrapolate:${request.extrapolate}:${request.maxStaleness ?? ''}` : key;
+  }
+
+  /**
+   * Resolve a price at most once at a time per flight key
+   *
+   * Callers with the same flight key share the pending lookup. Another instance
+   * holding the lock is waited for until its price is cached or the lock is
+   * released or expires; the price is then resolved here if it did not appear.
+   * Resolved prices are stored under the cache key.
+   *
+   * @param key - Cache key, from `getKey`
+   * @param flightKey - Key to coalesce on, from `getFlightKey`; defaults to the cache key
+   */
+  coalesce(
+    key: string,
+    resolver: () => Promise<PriceResponse | null>,
+    flightKey: string = key
+  ): Promise<PriceResponse | null> {
+    const pending = this.inFlight.get(flightKey);
+    if (pending) {
+      logger.info(`Joining in-flight lookup for key: ${flightKey}`);
+      return pending;
+    }
+
+    const lookup = this.resolveOnce(key, resolver, flightKey)
+      .finally(() => this.inFlight.delete(flightKey));
+    this.inFlight.set(flightKey, lookup);
+    return lookup;
+  }
+
+  private async resolveOnce(
+    key: string,
+    resolver: () => Promise<PriceResponse | null>,
+    flightKey: string
+  ): Promise<PriceResponse | null> {
+    const lockKey = `lock:${flightKey}`;
+    const token = await redisService.acquireLock(lockKey, PRICE_LOCK_TTL);
+
+    if (!token && redisService.isReady()) {
+      const cached = await this.waitForLock(key, lockKey);
+      if (cached) {
+        logger.info(`Using price cached by another instance for key: ${key}`);
+        return this.toResponse(cached);
+      }
+    }
+
+    try {
+      const response = await resolver();
+      if (response) {
+        await this.set(key, response);
+      }
+      return response;
+    } finally {
+      if (token) {
+        await redisService.releaseLock(lockKey, token);
+      }
+    }
+  }
+
+  /**
+   * Poll for a price being resolved elsewhere
+   * @returns The cached price, or null once the lock is gone or timed out without one
+   */
+  private async waitForLock(key: string, lockKey: string): Promise<CacheData | null> {
+    const deadline = Date.now() + PRICE_LOCK_TTL;
+
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, LOCK_POLL_INTERVAL));
+
+      const cached = await this.get(key);
+      if (cached) {
+        return cached;
+      }
+      if (!await redisService.exists(lockKey)) {
+        // Prices that are never cached only show up as the lock being released
+        return this.get(key);
+      }
+    }
+
+    logger.warn(`Timed out waiting for lock: ${lockKey}`);
+    return null;
+  }
+
+  async get(key: string): Promise<CacheData | null> {
+    const cached = await tieredCache.get(key);
+    if (!cached) {
+      return null;
+    }
+
+    try {
+      const data: CacheData = JSON.parse(cached);
+      return data.response ? data : null;
+    } catch (error) {
+      logger.error(`Error parsing cached price for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a price response, unless its source must not be cached
+   * @param ttl - Seconds to keep it, by default from the policy for the price's timestamp
+   * @returns True if the response was stored
+   */
+  async set(key: string, response: PriceResponse, ttl?: number): Promise<boolean> {
+    if (UNCACHED_SOURCES.includes(response.source)) {
+      return false;
+    }
+
+    const data: CacheData = {
+      response,
+      cachedAt: new Date().toISOString()
+    };
+    const expiry = ttl ?? this.getPolicy(new Date(response.timestamp).getTime() / 1000).ttl;
+    return tieredCache.set(key, JSON.stringify(data), expiry);
+  }
+
+  /**
+   * Drop cached prices for a token and/or network, or every cached price when neither is given
+   * @returns Number of entries deleted
+   */
+  async invalidate(token?: string, network?: string): Promise<number> {
+    const pattern = `price:${token ? token.toLowerCase() : '*'}:${network ? network.toLowerCase() : '*'}:*`;
+    const deleted = await tieredCache.delPattern(pattern);
+
+    logger.info(`Invalidated ${deleted} cached prices matching ${pattern}`);
+    return deleted;
+  }
+
+  async getStats(): Promise<PriceCacheStats> {
+    const [entries, lookupsInProgress, stats, memory] = await Promise.all([
+      redisService.countKeys('price:*'),
+      redisService.countKeys('lock:price:*'),
+      redisService.getInfo('stats'),
+      redisService.getInfo('memory')
+    ]);
+
+    return {
+      connected: redisService.isReady(),
+      entries,
+      lookupsInProgress,
+      localLookupsInProgress: this.inFlight.size,
+      keyspaceHits: parseInt(stats.keyspace_hits || '0'),
+      keyspaceMisses: parseInt(stats.keyspace_misses || '0'),
+      usedMemory: memory.used_memory_human || null,
+      tiers: tieredCache.getMetrics()
+    };
+  }
+
+  /**
+   * Response for a cache hit: served as `cache`, keeping the source that produced it
+   */
+  toResponse(data: CacheData): PriceResponse {
+    return {
+      ...data.response,
+      source: 'cache',
+      originalSource: data.response.source,
+      cachedAt: data.cachedAt
+    };
+  }
+}
+
+const priceCache = new PriceCacheService();
+export default priceCache;
@@ -0,0 +1,40 @@
+import { EventEmitter } from 'events';
+import logger from '../utils/logger';
+import { PriceResponse } from '../types';
+
+export type PriceListener = (price: PriceResponse) => void;
+
+/**
+ * In-process notifications for newly fetched or written prices
+ * Kept free of service imports so the resolver and the worker can both publish
+ */
+class PriceEventsService {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per live stream, not per client
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(price: PriceResponse): void {
+    try {
+      this.emitter.emit('price', price);
+    } catch (error) {
+      logger.warn(`Price listener failed for ${price.token} on ${price.network}:`, error);
+    }
+  }
+
+  /**
+   * Listen for new prices
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: PriceListener): () => void {
+    this.emitter.on('price', listener);
+    return () => {
+      this.emitter.off('price', listener);
+    };
+  }
+}
+
+const priceEvents = new PriceEventsService();
+export default priceEvents;
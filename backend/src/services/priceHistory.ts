@@ -0,0 +1,169 @@
+import mongoService from './mongodb';
+import bullMQService from './bullmq';
+import { resolvePrice } from './priceResolver';
+import { interpolateBetween, PricePoint } from './interpolation';
+import logger from '../utils/logger';
+import { NetworkType, PriceHistory, PriceHistoryPoint, SourceType } from '../types';
+
+// Stored prices further apart than this are treated as a gap rather than interpolated
+const MAX_INTERPOLATION_GAP = 7 * 24 * 60 * 60; // 7 days in seconds
+
+export interface PriceHistoryOptions {
+  token: string;
+  network: NetworkType;
+  from: Date;
+  to: Date;
+  interval: string;
+  intervalMs: number;
+  backfill?: boolean;
+}
+
+interface StoredPoint extends PricePoint {
+  source: SourceType;
+}
+
+/**
+ * Build a price history resampled to a fixed interval
+ *
+ * Each grid point is served from the nearest stored price within half an interval,
+ * otherwise interpolated between the surrounding stored prices. The most recent
+ * grid point may be fetched live when nothing is stored for it. Remaining gaps are
+ * reported as missing ranges and can optionally be queued for a backfill job.
+ */
+export async function buildPriceHistory(options: PriceHistoryOptions): Promise<PriceHistory> {
+  const { token, network, from, to, interval, intervalMs, backfill = false } = options;
+
+  const fromTs = Math.floor(from.getTime() / 1000);
+  const toTs = Math.floor(to.getTime() / 1000);
+  const step = Math.floor(intervalMs / 1000);
+  const nowTs = Math.floor(Date.now() / 1000);
+
+  // Load stored prices in range plus the closest anchors on either side
+  const [stored, [anchorBefore], [, anchorAfter]] = await Promise.all([
+    mongoService.getPriceHistory(token, network, from, to),
+    mongoService.findClosestPrices(token, network, fromTs),
+    mongoService.findClosestPrices(token, network, toTs)
+  ]);
+
+  const points: StoredPoint[] = [];
+  const seen = new Set<number>();
+  for (const doc of [anchorBefore, ...stored, anchorAfter]) {
+    if (doc && !seen.has(doc.timestamp)) {
+      seen.add(doc.timestamp);
+      points.push({ timestamp: doc.timestamp, price: doc.price, source: doc.source });
+    }
+  }
+  points.sort((a, b) => a.timestamp - b.timestamp);
+
+  const prices: PriceHistoryPoint[] = [];
+  const missing: number[] = [];
+  let index = 0;
+
+  for (let ts = fromTs; ts <= toTs; ts += step) {
+    // Advance to the first stored point at or after this grid point
+    while (index < points.length && points[index].timestamp < ts) {
+      index++;
+    }
+
+    const before = index > 0 ? points[index - 1] : null;
+    const after = index < points.length ? points[index] : null;
+    const iso = new Date(ts * 1000).toISOString();
+
+    const nearest = [before, after]
+      .filter((point): point is StoredPoint => point !== null)
+      .sort((a, b) => Math.abs(a.timestamp - ts) - Math.abs(b.timestamp - ts))[0];
+
+    if (nearest && Math.abs(nearest.timestamp - ts) * 2 < step) {
+      prices.push({ timestamp: iso, price: nearest.price, source: nearest.source, kind: 'stored' });
+      continue;
+    }
+
+    if (before && after && after.timestamp - before.timestamp <= MAX_INTERPOLATION_GAP) {
+      const result = interpolateBetween(before, after, ts);
+      if (result) {
+        prices.push({
+          timestamp: iso,
+          price: result.price,
+          source: 'interpolated',
+          kind: 'interpolated',
+          confidence: result.confidence
+        });
+        continue;
+      }
+    }
+
+    // Only the most recent grid point is fetched inline; older gaps go to backfill
+    if (nowTs - ts < step) {
+      const response = await resolvePrice(token, network, iso);
+      if (response) {
+        prices.push({
+          timestamp: iso,
+          price: response.price,
+          source: response.source,
+          kind: response.source === 'interpolated' ? 'interpolated' : 'fetched'
+        });
+        continue;
+      }
+    }
+
+    missing.push(ts);
+  }
+
+  const missingRanges = toRanges(missing, step);
+
+  let backfillJob: PriceHistory['backfill'] = null;
+  if (backfill && missingRanges.length > 0) {
+    backfillJob = await bullMQService.addPriceHistoryJob({
+      token: token.toUpperCase(),
+      network: network.toLowerCase(),
+      startDate: missingRanges[0].from,
+      endDate: missingRanges[missingRanges.length - 1].to,
+      requestId: `backfill-${token.toUpperCase()}-${network.toLowerCase()}-${Date.now()}`
+    });
+
+    if (backfillJob) {
+      logger.info(`Queued backfill job ${backfillJob.jobId} for ${missing.length} missing points of ${token} on ${network}`);
+    }
+  }
+
+  return {
+    token,
+    network,
+    period: `${from.toISOString()} to ${to.toISOString()}`,
+    interval,
+    prices,
+    missingRanges,
+    backfill: backfillJob
+  };
+}
+
+/**
+ * Collapse consecutive missing grid points into ranges
+ */
+function toRanges(timestamps: number[], step: number): PriceHistory['missingRanges'] {
+  const ranges: PriceHistory['missingRanges'] = [];
+  let start: number | null = null;
+  let previous: number | null = null;
+
+  for (const ts of timestamps) {
+    if (start === null || previous === null || ts - previous !== step) {
+      if (start !== null && previous !== null) {
+        ranges.push({ from: new Date(start * 1000).toISOString(), to: new Date(previous * 1000).toISOString() });
+      }
+      start = ts;
+    }
+    previous = ts;
+  }
+
+  if (start !== null && previous !== null) {
+    ranges.push({ from: new Date(start * 1000).toISOString(), to: new Date(previous * 1000).toISOString() });
+  }
+
+  return ranges;
+}
+
+const priceHistoryService = {
+  buildPriceHistory
+};
+
+export default priceHistoryService;
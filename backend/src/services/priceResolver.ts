@@ -0,0 +1,223 @@
+import alchemyService from './alchemy';
+import mongoService, { StoredPriceAnchor } from './mongodb';
+import { extrapolatePrice, getInterpolationBasis, interpolatePrice, DEFAULT_MAX_STALENESS } from './interpolation';
+import outlierGuard from './outlierGuard';
+import priceEvents from './priceEvents';
+import logger from '../utils/logger';
+import { AggregationMethod, ExtrapolationMode, InterpolationMethod, NetworkType, PriceAnchor, PriceBasis, PriceResponse } from '../types';
+
+export interface ResolveOptions {
+  method?: InterpolationMethod; // interpolation method used when no provider has the price
+  extrapolate?: ExtrapolationMode; // opt in to extrapolation when prices are known on one side only
+  maxStaleness?: number; // seconds extrapolation may reach from the nearest known price
+  aggregate?: AggregationMethod; // query every provider and aggregate their quotes
+}
+
+/**
+ * Resolve a token price at a timestamp
+ *
+ * Resolution order:
+ * 1. Exact price already stored in MongoDB
+ * 2. Registered price providers, the first to answer or an aggregate of all of them
+ *    (result is stored for future use, outliers are quarantined)
+ * 3. Interpolation between the closest stored prices (result is stored)
+ * 4. Extrapolation from the nearest stored prices, only if requested (never stored)
+ *
+ * Stored interpolated prices are only reused when they were produced with the
+ * requested method, and aggregate requests only reuse prices aggregated the same way;
+ * otherwise the price is resolved again without being stored.
+ *
+ * @returns The resolved price or null if no source could provide one
+ */
+export async function resolvePrice(
+  token: string,
+  network: NetworkType,
+  timestamp: string,
+  options: ResolveOptions = {}
+): Promise<PriceResponse | null> {
+  const { method = 'linear', extrapolate, maxStaleness = DEFAULT_MAX_STALENESS, aggregate } = options;
+  const unixTimestamp = Math.floor(new Date(timestamp).getTime() / 1000);
+
+  // Step 1: Check if we already have this exact price in MongoDB
+  const existingPrice = await mongoService.findPriceByTimestamp(token, network, unixTimestamp);
+  const existingMethod = existingPrice?.source === 'interpolated'
+    ? existingPrice.interpolationMethod || 'linear'
+    : undefined;
+
+  const reusable = existingPrice
+    && (!existingMethod || existingMethod === method)
+    && (!aggregate || existingPrice.aggregation === aggregate);
+
+  if (existingPrice && reusable) {
+    logger.info(`Found existing price in MongoDB: ${token} = $${existingPrice.price}`);
+    const storedBasis = toPriceBasis(existingPrice.basis);
+
+    return {
+      price: existingPrice.price,
+      source: existingPrice.source,
+      timestamp: existingPrice.date,
+      token: existingPrice.token,
+      network: existingPrice.network,
+      ...(existingMethod && { method: existingMethod }),
+      // Prices stored before confidence was recorded are only trusted when they came from a provider
+      ...((existingPrice.confidence !== undefined || !existingMethod) && { confidence: existingPrice.confidence ?? 1 }),
+      ...(existingPrice.staleness !== undefined && { staleness: existingPrice.staleness }),
+      ...(storedBasis && { basis: storedBasis }),
+      ...(existingPrice.aggregation && {
+        aggregation: existingPrice.aggregation,
+        quotes: existingPrice.quotes?.map(quote => ({ source: quote.source, price: quote.price })),
+        divergence: existingPrice.divergence
+      })
+    };
+  }
+
+  // Step 2: Try to fetch from the registered price providers
+  const priceData = aggregate
+    ? await alchemyService.getAggregatedTokenPrice(token, network, timestamp, aggregate)
+    : await alchemyService.getTokenPrice(token, network, timestamp);
+  const aggregation = priceData?.source === 'aggregated'
+    ? { aggregation: priceData.aggregation, quotes: priceData.quotes, divergence: priceData.divergence }
+    : undefined;
+
+  // Prices far from their stored neighbours are quarantined instead of stored or served
+  const admitted = priceData
+    ? await outlierGuard.guard(token, network, { timestamp: unixTimestamp, price: priceData.price, source: priceData.source })
+    : false;
+
+  if (priceData && admitted) {
+    // Save to MongoDB for future use, unless a price is already stored for this timestamp
+    if (!existingPrice) {
+      try {
+        await mongoService.createPrice({
+          token: token.toUpperCase(),
+          network: network.toLowerCase(),
+          date: timestamp,
+          timestamp: unixTimestamp,
+          price: priceData.price,
+          source: priceData.source,
+          confidence: 1,
+          staleness: 0,
+          ...aggregation
+        });
+        logger.info(`Saved ${priceData.source} price to MongoDB: ${token} = $${priceData.price}`);
+      } catch (error) {
+        logger.warn(`Failed to save ${priceData.source} price to MongoDB:`, error);
+      }
+    }
+
+    logger.info(`Price fetched from ${priceData.source}: ${token} = $${priceData.price}`);
+
+    const response: PriceResponse = {
+      price: priceData.price,
+      source: priceData.source,
+      timestamp: priceData.timestamp,
+      token,
+      network,
+      confidence: 1,
+      staleness: 0,
+      ...aggregation
+    };
+    priceEvents.publish(response);
+
+    return response;
+  }
+
+  // Step 3: Try interpolation if every provider fails
+  logger.info(`Price providers failed, attempting interpolation for ${token} on ${network}`);
+
+  const interpolationResult = await interpolatePrice(token, network, unixTimestamp, method);
+
+  if (interpolationResult) {
+    const basis = getInterpolationBasis(interpolationResult);
+
+    // Save interpolated price to MongoDB, unless one from another method is already stored
+    if (!existingPrice) {
+      try {
+        await mongoService.createPrice({
+          token: token.toUpperCase(),
+          network: network.toLowerCase(),
+          date: timestamp,
+          timestamp: unixTimestamp,
+          price: interpolationResult.price,
+          source: 'interpolated',
+          interpolationMethod: interpolationResult.method,
+          confidence: interpolationResult.confidence,
+          staleness: interpolationResult.staleness,
+          basis
+        });
+        logger.info(`Saved interpolated price to MongoDB: ${token} = $${interpolationResult.price}`);
+      } catch (error) {
+        logger.warn('Failed to save interpolated price to MongoDB:', error);
+      }
+    }
+
+    logger.info(`Price interpolated: ${token} = $${interpolationResult.price} (${interpolationResult.method}, confidence: ${interpolationResult.confidence.toFixed(2)})`);
+
+    const response: PriceResponse = {
+      price: interpolationResult.price,
+      source: 'interpolated',
+      timestamp,
+      token,
+      network,
+      method: interpolationResult.method,
+      confidence: interpolationResult.confidence,
+      staleness: interpolationResult.staleness,
+      basis: toPriceBasis(basis)
+    };
+    priceEvents.publish(response);
+
+    return response;
+  }
+
+  // Step 4: Extrapolate from one side of the gap if the client accepts it
+  if (extrapolate) {
+    const extrapolationResult = await extrapolatePrice(token, network, unixTimestamp, extrapolate, maxStaleness);
+
+    if (extrapolationResult) {
+      const { anchor } = extrapolationResult;
+      const anchorSide = anchor.timestamp < unixTimestamp ? 'before' : 'after';
+
+      logger.info(`Price extrapolated: ${token} = $${extrapolationResult.price} (${extrapolate}, confidence: ${extrapolationResult.confidence.toFixed(2)})`);
+
+      return {
+        price: extrapolationResult.price,
+        source: 'extrapolated',
+        timestamp,
+        token,
+        network,
+        extrapolation: extrapolationResult.mode,
+        confidence: extrapolationResult.confidence,
+        staleness: extrapolationResult.staleness,
+        basis: toPriceBasis({ [anchorSide]: anchor })
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert stored anchors to the API shape, undefined when there are none
+ */
+function toPriceBasis(basis?: { before?: StoredPriceAnchor | null; after?: StoredPriceAnchor | null }): PriceBasis | undefined {
+  if (!basis?.before && !basis?.after) {
+    return undefined;
+  }
+
+  return {
+    before: toPriceAnchor(basis.before),
+    after: toPriceAnchor(basis.after)
+  };
+}
+
+function toPriceAnchor(anchor?: StoredPriceAnchor | null): PriceAnchor | null {
+  return anchor
+    ? { timestamp: new Date(anchor.timestamp * 1000).toISOString(), price: anchor.price }
+    : null;
+}
+
+const priceResolver = {
+  resolvePrice
+};
+
+export default priceResolver;
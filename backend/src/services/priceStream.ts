@@ -0,0 +1,289 @@
+import { Server } from 'http';
+import WebSocket, { RawData, WebSocketServer } from 'ws';
+import priceCache from './priceCache';
+import priceEvents from './priceEvents';
+import { resolvePrice } from './priceResolver';
+import logger from '../utils/logger';
+import { NetworkType, PriceResponse } from '../types';
+
+const PRICE_STREAM_PATH = process.env.PRICE_STREAM_PATH || '/ws/prices';
+const POLL_INTERVAL = parseInt(process.env.PRICE_STREAM_POLL_INTERVAL || '30000'); // 30 seconds
+const HEARTBEAT_INTERVAL = 30000;
+const MAX_SUBSCRIPTIONS_PER_CLIENT = 50;
+
+const NETWORKS: NetworkType[] = ['ethereum', 'polygon', 'arbitrum', 'optimism', 'base'];
+const TOKEN_PATTERN = /^(0x[a-fA-F0-9]{40}|[A-Za-z0-9]{2,10})$/;
+
+// Messages accepted from clients
+interface ClientMessage {
+  action: 'subscribe' | 'unsubscribe';
+  token: string;
+  network: NetworkType;
+}
+
+// Messages sent to clients
+type ServerMessage =
+  | { type: 'subscribed' | 'unsubscribed'; token: string; network: NetworkType }
+  | { type: 'price'; data: PriceResponse }
+  | { type: 'error'; message: string };
+
+// One upstream poll per (token, network), fanned out to every subscribed client
+interface Subscription {
+  token: string;
+  network: NetworkType;
+  clients: Set<WebSocket>;
+  timer: NodeJS.Timeout;
+  latest: PriceResponse | null;
+  polling: boolean;
+}
+
+/**
+ * Live price subscriptions over WebSocket
+ *
+ * Clients send `{ action: 'subscribe' | 'unsubscribe', token, network }` and
+ * receive `{ type: 'price', data }` whenever a newer price for the pair is
+ * fetched, either by the stream's own poll, an API request or a scheduled job.
+ */
+class PriceStreamService {
+  readonly path = PRICE_STREAM_PATH;
+  private server: WebSocketServer | null = null;
+  private subscriptions: Map<string, Subscription> = new Map();
+  private clientSubscriptions: Map<WebSocket, Set<string>> = new Map();
+  private aliveClients: WeakSet<WebSocket> = new WeakSet();
+  private heartbeat: NodeJS.Timeout | null = null;
+  private unsubscribeFromPrices: (() => void) | null = null;
+
+  /**
+   * Accept WebSocket connections on the HTTP server
+   */
+  attach(httpServer: Server): void {
+    if (this.server) {
+      return;
+    }
+
+    this.server = new WebSocketServer({ server: httpServer, path: PRICE_STREAM_PATH });
+    this.server.on('connection', (socket) => this.handleConnection(socket));
+    this.server.on('error', (error) => {
+      logger.error('Price stream server error:', error);
+    });
+
+    this.unsubscribeFromPrices = priceEvents.subscribe((price) => this.publish(price));
+
+    // Drop clients that stopped answering pings
+    this.heartbeat = setInterval(() => {
+      this.server?.clients.forEach((socket) => {
+        if (!this.aliveClients.has(socket)) {
+          socket.terminate();
+          return;
+        }
+        this.aliveClients.delete(socket);
+        socket.ping();
+      });
+    }, HEARTBEAT_INTERVAL);
+
+    logger.info(`Price stream listening on ${PRICE_STREAM_PATH}`);
+  }
+
+  /**
+   * Send a price to the subscribers of its pair if it is newer than the last one sent
+   */
+  publish(price: PriceResponse): void {
+    const subscription = this.subscriptions.get(getSubscriptionKey(price.token, price.network));
+    if (!subscription) {
+      return;
+    }
+
+    const latestTime = subscription.latest ? new Date(subscription.latest.timestamp).getTime() : -Infinity;
+    if (new Date(price.timestamp).getTime() <= latestTime) {
+      return;
+    }
+
+    subscription.latest = price;
+    subscription.clients.forEach((socket) => send(socket, { type: 'price', data: price }));
+  }
+
+  getStats(): { clients: number; subscriptions: number } {
+    return {
+      clients: this.clientSubscriptions.size,
+      subscriptions: this.subscriptions.size
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+
+    this.unsubscribeFromPrices?.();
+    this.unsubscribeFromPrices = null;
+
+    this.subscriptions.forEach((subscription) => clearInterval(subscription.timer));
+    this.subscriptions.clear();
+    this.clientSubscriptions.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      server.clients.forEach((socket) => socket.terminate());
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      logger.info('Price stream closed');
+    }
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    this.clientSubscriptions.set(socket, new Set());
+    this.aliveClients.add(socket);
+
+    socket.on('pong', () => this.aliveClients.add(socket));
+    socket.on('message', (data) => this.handleMessage(socket, data));
+    socket.on('close', () => this.handleDisconnect(socket));
+    socket.on('error', (error) => {
+      logger.warn('Price stream client error:', error);
+    });
+  }
+
+  private handleMessage(socket: WebSocket, data: RawData): void {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      send(socket, { type: 'error', message: 'Messages must be JSON' });
+      return;
+    }
+
+    const { action, token, network } = message || {};
+
+    if (action !== 'subscribe' && action !== 'unsubscribe') {
+      send(socket, { type: 'error', message: "Action must be 'subscribe' or 'unsubscribe'" });
+      return;
+    }
+
+    if (typeof token !== 'string' || !TOKEN_PATTERN.test(token)) {
+      send(socket, { type: 'error', message: 'Token must be a valid contract address (0x...) or symbol (2-10 chars)' });
+      return;
+    }
+
+    if (!NETWORKS.includes(network)) {
+      send(socket, { type: 'error', message: `Network must be one of: ${NETWORKS.join(', ')}` });
+      return;
+    }
+
+    if (action === 'subscribe') {
+      this.subscribe(socket, token, network);
+    } else {
+      this.unsubscribe(socket, token, network);
+    }
+  }
+
+  private subscribe(socket: WebSocket, token: string, network: NetworkType): void {
+    const keys = this.clientSubscriptions.get(socket);
+    if (!keys) {
+      return;
+    }
+
+    const key = getSubscriptionKey(token, network);
+    if (!keys.has(key) && keys.size >= MAX_SUBSCRIPTIONS_PER_CLIENT) {
+      send(socket, { type: 'error', message: `At most ${MAX_SUBSCRIPTIONS_PER_CLIENT} subscriptions per connection` });
+      return;
+    }
+
+    let subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      subscription = {
+        token: normalizeToken(token),
+        network,
+        clients: new Set(),
+        timer: setInterval(() => this.poll(key), POLL_INTERVAL),
+        latest: null,
+        polling: false
+      };
+      this.subscriptions.set(key, subscription);
+      logger.info(`Started price stream for ${subscription.token} on ${network}`);
+      void this.poll(key);
+    }
+
+    keys.add(key);
+    subscription.clients.add(socket);
+    send(socket, { type: 'subscribed', token: subscription.token, network });
+
+    // New subscribers get the last known price straight away
+    if (subscription.latest) {
+      send(socket, { type: 'price', data: subscription.latest });
+    }
+  }
+
+  private unsubscribe(socket: WebSocket, token: string, network: NetworkType): void {
+    const key = getSubscriptionKey(token, network);
+    this.removeClient(socket, key);
+    this.clientSubscriptions.get(socket)?.delete(key);
+    send(socket, { type: 'unsubscribed', token: normalizeToken(token), network });
+  }
+
+  private handleDisconnect(socket: WebSocket): void {
+    this.clientSubscriptions.get(socket)?.forEach((key) => this.removeClient(socket, key));
+    this.clientSubscriptions.delete(socket);
+  }
+
+  private removeClient(socket: WebSocket, key: string): void {
+    const subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      return;
+    }
+
+    subscription.clients.delete(socket);
+
+    // Stop polling once the last subscriber leaves
+    if (subscription.clients.size === 0) {
+      clearInterval(subscription.timer);
+      this.subscriptions.delete(key);
+      logger.info(`Stopped price stream for ${subscription.token} on ${subscription.network}`);
+    }
+  }
+
+  private async poll(key: string): Promise<void> {
+    const subscription = this.subscriptions.get(key);
+    if (!subscription || subscription.polling) {
+      return;
+    }
+
+    subscription.polling = true;
+    try {
+      // Polls share cached prices and in-flight lookups with API requests for the pair.
+      // Newly fetched prices are published by the resolver; cached and stored ones are published here
+      const { token, network } = subscription;
+      const timestamp = new Date().toISOString();
+      const cacheKey = priceCache.getKey({ token, network, timestamp });
+
+      const cached = await priceCache.get(cacheKey);
+      const price = cached
+        ? priceCache.toResponse(cached)
+        : await priceCache.coalesce(cacheKey, () => resolvePrice(token, network, timestamp));
+      if (price) {
+        this.publish(price);
+      }
+    } catch (error) {
+      logger.warn(`Price stream poll failed for ${subscription.token} on ${subscription.network}:`, error);
+    } finally {
+      subscription.polling = false;
+    }
+  }
+}
+
+// Symbols are uppercased and contract addresses lowercased, as in the rest of the price pipeline
+function normalizeToken(token: string): string {
+  return /^0x/i.test(token) ? token.toLowerCase() : token.toUpperCase();
+}
+
+function getSubscriptionKey(token: string, network: string): string {
+  return `${normalizeToken(token)}:${network.toLowerCase()}`;
+}
+
+function send(socket: WebSocket, message: ServerMessage): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+const priceStream = new PriceStreamService();
+export default priceStream;
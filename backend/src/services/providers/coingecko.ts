@@ -0,0 +1,75 @@
+import axios from 'axios';
+import tokenRegistry from '../tokenRegistry';
+import logger from '../../utils/logger';
+import { NetworkType, PriceProvider } from '../../types';
+
+/**
+ * CoinGecko price provider
+ * Uses the simple price endpoint for recent timestamps and the daily
+ * history endpoint for anything older than 24 hours
+ */
+class CoinGeckoProvider implements PriceProvider {
+  readonly name = 'coingecko' as const;
+  readonly priority = 100;
+
+  supportsNetwork(network: NetworkType): boolean {
+    return true;
+  }
+
+  async fetchPrice(token: string, network: NetworkType, timestamp: string): Promise<number | null> {
+    // Resolve the contract address or symbol to a CoinGecko ID
+    const coinId = tokenRegistry.getProviderId(token, network, this.name);
+    if (!coinId) {
+      logger.warn(`No CoinGecko mapping for token: ${token} on ${network}`);
+      return null;
+    }
+
+    // Check if timestamp is recent (within 24 hours) for current price
+    const now = new Date();
+    const requestTime = new Date(timestamp);
+    const hoursDiff = (now.getTime() - requestTime.getTime()) / (1000 * 60 * 60);
+
+    let apiUrl: string;
+
+    if (hoursDiff <= 24) {
+      // Use current price endpoint for recent requests
+      apiUrl = `https://api.coingecko.com/api/v3/simple/price?ids=${coinId}&vs_currencies=usd`;
+    } else {
+      // Use historical price endpoint for older requests
+      const dateStr = requestTime.toISOString().split('T')[0]; // YYYY-MM-DD format
+      apiUrl = `https://api.coingecko.com/api/v3/coins/${coinId}/history?date=${dateStr}`;
+    }
+
+    logger.info(`Fetching real price from CoinGecko: ${apiUrl}`);
+
+    const response = await axios.get(apiUrl, {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'TokenPriceOracle/1.0'
+      },
+      timeout: 10000 // 10 second timeout
+    });
+
+    const data = response.data;
+
+    let price: number;
+
+    if (hoursDiff <= 24) {
+      // Current price response format
+      price = data[coinId]?.usd;
+    } else {
+      // Historical price response format
+      price = data.market_data?.current_price?.usd;
+    }
+
+    if (typeof price !== 'number' || isNaN(price)) {
+      logger.warn(`Invalid price data received for ${token}: ${price}`);
+      return null;
+    }
+
+    return Math.round(price * 100) / 100; // Round to 2 decimal places
+  }
+}
+
+const coinGeckoProvider = new CoinGeckoProvider();
+export default coinGeckoProvider;
@@ -0,0 +1,260 @@
+import { Utils } from 'alchemy-sdk';
+import alchemyClients from '../alchemyClients';
+import blockLookup from '../blockLookup';
+import tokenRegistry from '../tokenRegistry';
+import dexProvider from './dex';
+
+jest.mock('../../utils/logger');
+jest.mock('../alchemyClients', () => {
+  const call = jest.fn();
+  return { __esModule: true, default: { get: jest.fn(() => ({ core: { call } })) } };
+});
+jest.mock('../blockLookup', () => ({
+  __esModule: true,
+  default: { getBlockAtTimestamp: jest.fn() }
+}));
+jest.mock('../tokenRegistry', () => ({
+  __esModule: true,
+  default: { findByAddress: jest.fn(), findBySymbol: jest.fn() }
+}));
+
+const call = alchemyClients.get('ethereum').core.call as jest.Mock;
+const getBlockAtTimestamp = blockLookup.getBlockAtTimestamp as jest.Mock;
+const findByAddress = tokenRegistry.findByAddress as jest.Mock;
+const findBySymbol = tokenRegistry.findBySymbol as jest.Mock;
+
+const WETH = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const UNI = '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984';
+const WBTC = '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599';
+const PEPE = '0x6982508145454Ce325dDbE47a25d4ec3d2311933';
+const LINK = '0x514910771AF9Ca656af840dff83E8264EcF986CA';
+const AAVE = '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9';
+const USDT = '0xdAC17F958D2ee523a2206206994597C13D831ec7';
+const V2_FACTORY = '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f';
+const V3_FACTORY = '0x1F98431c8aD98523631AE4a59f267346ea31F984';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Every contract method the provider reads, for decoding calls and encoding replies
+const rpc = new Utils.Interface([
+  'function decimals() view returns (uint8)',
+  'function getPair(address, address) view returns (address)',
+  'function getPool(address, address, uint24) view returns (address)',
+  'function token0() view returns (address)',
+  'function liquidity() view returns (uint128)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)'
+]);
+
+interface MockPool {
+  token0: string;
+  liquidity?: string;
+  sqrtPriceX96?: string;
+  reserves?: [string, string];
+}
+
+/**
+ * In-memory chain answering `eth_call` for ERC-20 decimals and Uniswap factories, pairs and pools
+ * Calls to addresses without code return `0x`, as a node does.
+ */
+class MockChain {
+  private decimals: Map<string, number> = new Map();
+  private factories: Map<string, string> = new Map(); // `${factory}:${token}:${token}[:${fee}]` -> pool
+  private pools: Map<string, MockPool> = new Map();
+  private nextPool = 1;
+
+  addToken(address: string, decimals: number): void {
+    this.decimals.set(address.toLowerCase(), decimals);
+  }
+
+  /**
+   * Add a V3 pool where one `token` is worth `price` of `quote`
+   */
+  addV3Pool(token: string, quote: string, fee: number, price: number, liquidity: string = '1000000000000000000'): string {
+    const [token0, token1] = sortTokens(token, quote);
+    const price1Per0 = sameAddress(token0, token) ? price : 1 / price;
+    const rawPrice = price1Per0 * 10 ** (this.getDecimals(token1) - this.getDecimals(token0));
+    const sqrtPriceX96 = BigInt(Math.round(Math.sqrt(rawPrice) * 2 ** 96)).toString();
+
+    return this.addPool(`${V3_FACTORY}:${token0}:${token1}:${fee}`, { token0, liquidity, sqrtPriceX96 });
+  }
+
+  /**
+   * Add a V2 pair holding raw reserves of each token
+   */
+  addV2Pair(token: string, tokenReserve: string, quote: string, quoteReserve: string): string {
+    const [token0] = sortTokens(token, quote);
+    const reserves: [string, string] = sameAddress(token0, token)
+      ? [tokenReserve, quoteReserve]
+      : [quoteReserve, tokenReserve];
+
+    return this.addPool(`${V2_FACTORY}:${sortTokens(token, quote).join(':')}`, { token0, reserves });
+  }
+
+  call(to: string, data: string): string {
+    const contract = to.toLowerCase();
+    const { name, args } = rpc.parseTransaction({ data });
+    const pool = this.pools.get(contract);
+
+    switch (name) {
+      case 'decimals':
+        return this.decimals.has(contract) ? this.reply(name, [this.decimals.get(contract)]) : '0x';
+      case 'getPair':
+      case 'getPool': {
+        const key = [V2_FACTORY, V3_FACTORY].some(factory => sameAddress(factory, contract))
+          ? [contract, ...sortTokens(args[0], args[1]), ...args.slice(2).map(String)].join(':')
+          : '';
+        return this.reply(name, [this.factories.get(key) || ZERO_ADDRESS]);
+      }
+      case 'token0':
+        return pool ? this.reply(name, [pool.token0]) : '0x';
+      case 'liquidity':
+        return pool?.liquidity ? this.reply(name, [pool.liquidity]) : '0x';
+      case 'getReserves':
+        return pool?.reserves ? this.reply(name, [...pool.reserves, 0]) : '0x';
+      case 'slot0':
+        return pool?.sqrtPriceX96 ? this.reply(name, [pool.sqrtPriceX96, 0, 0, 1, 1, 0, true]) : '0x';
+    }
+    return '0x';
+  }
+
+  private addPool(key: string, pool: MockPool): string {
+    const address = `0x${(this.nextPool++).toString(16).padStart(40, '0')}`;
+    this.factories.set(key.toLowerCase(), address);
+    this.pools.set(address, pool);
+    return address;
+  }
+
+  private getDecimals(address: string): number {
+    return this.decimals.get(address.toLowerCase()) ?? 18;
+  }
+
+  private reply(method: string, values: unknown[]): string {
+    return rpc.encodeFunctionResult(method, values);
+  }
+}
+
+function sortTokens(a: string, b: string): [string, string] {
+  const [first, second] = [a.toLowerCase(), b.toLowerCase()].sort();
+  return [first, second];
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+const now = (): string => new Date().toISOString();
+
+describe('dexProvider', () => {
+  let chain: MockChain;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findByAddress.mockReturnValue(null);
+    findBySymbol.mockReturnValue(null);
+
+    chain = new MockChain();
+    chain.addToken(WETH, 18);
+    chain.addToken(USDC, 6);
+    chain.addV3Pool(WETH, USDC, 500, 4500);
+
+    call.mockImplementation(async ({ to, data }: { to: string; data: string }) => chain.call(to, data));
+  });
+
+  it('prices WETH from the slot0 of the WETH/USDC pool', async () => {
+    // USDC sorts first, so the pool quotes raw WETH per raw USDC and the provider inverts it
+    expect(await dexProvider.fetchPrice('ETH', 'ethereum', now())).toBe(4500);
+    expect(await dexProvider.fetchPrice(WETH.toLowerCase(), 'ethereum', now())).toBe(4500);
+  });
+
+  it('prices tokens sorting before and after WETH through V3 pools', async () => {
+    chain.addToken(LINK, 18);
+    chain.addToken(USDT, 6);
+    chain.addToken(PEPE, 18);
+    chain.addV3Pool(LINK, WETH, 3000, 0.004); // LINK is token0
+    chain.addV3Pool(USDT, WETH, 500, 1 / 4500); // USDT is token1, with 6 decimals
+    chain.addV3Pool(PEPE, WETH, 3000, 0.0000000022); // A tiny price
+
+    expect(await dexProvider.fetchPrice(LINK, 'ethereum', now())).toBe(18);
+    expect(await dexProvider.fetchPrice(USDT, 'ethereum', now())).toBe(1);
+    expect(await dexProvider.fetchPrice(PEPE, 'ethereum', now())).toBe(0.0000099);
+  });
+
+  it('uses the deepest V3 pool across fee tiers', async () => {
+    chain.addToken(LINK, 18);
+    chain.addV3Pool(LINK, WETH, 500, 0.003, '1000');
+    chain.addV3Pool(LINK, WETH, 3000, 0.004, '5000000');
+    chain.addV3Pool(LINK, WETH, 10000, 0.005, '2000');
+
+    expect(await dexProvider.fetchPrice(LINK, 'ethereum', now())).toBe(18);
+  });
+
+  it('falls back to V2 reserves without a V3 pool holding liquidity', async () => {
+    chain.addToken(UNI, 18);
+    chain.addV3Pool(UNI, WETH, 3000, 0.01, '0');
+    // 1,000 UNI against 1.7 WETH
+    chain.addV2Pair(UNI, '1000000000000000000000', WETH, '1700000000000000000');
+
+    expect(await dexProvider.fetchPrice(UNI, 'ethereum', now())).toBe(7.65);
+  });
+
+  it('scales raw amounts by each token\'s decimals', async () => {
+    chain.addToken(WBTC, 8);
+    // 10 WBTC (8 decimals) against 250 WETH (18 decimals)
+    chain.addV2Pair(WBTC, '1000000000', WETH, '250000000000000000000');
+
+    expect(await dexProvider.fetchPrice(WBTC, 'ethereum', now())).toBe(112500);
+    expect(call).toHaveBeenCalledWith(expect.objectContaining({ to: WBTC }), 'latest');
+  });
+
+  it('takes decimals and addresses of registry tokens from the registry', async () => {
+    const token = { symbol: 'AAVE', address: AAVE, network: 'ethereum', decimals: 18 };
+    findBySymbol.mockReturnValue(token);
+    findByAddress.mockImplementation((_network: string, address: string) => (sameAddress(address, AAVE) ? token : null));
+    // Not deployed on the mock chain, so a decimals() call would fail
+    chain.addV2Pair(AAVE, '1000000000000000000000', WETH, '50000000000000000000');
+
+    expect(await dexProvider.fetchPrice('aave', 'ethereum', now())).toBe(225);
+    expect(findBySymbol).toHaveBeenCalledWith('AAVE', 'ethereum');
+    expect(call).not.toHaveBeenCalledWith(expect.objectContaining({ to: AAVE }), 'latest');
+  });
+
+  it('reads pools at the block of a past timestamp', async () => {
+    getBlockAtTimestamp.mockResolvedValue({ network: 'ethereum', number: 19000000, timestamp: 1704067200 });
+
+    expect(await dexProvider.fetchPrice('ETH', 'ethereum', '2024-01-01T00:00:00.000Z')).toBe(4500);
+    expect(getBlockAtTimestamp).toHaveBeenCalledWith('ethereum', 1704067200);
+    expect(call.mock.calls.every(([, blockTag]) => blockTag === 19000000)).toBe(true);
+  });
+
+  it('returns null without a block for a past timestamp', async () => {
+    getBlockAtTimestamp.mockResolvedValue(null);
+
+    expect(await dexProvider.fetchPrice('ETH', 'ethereum', '2024-01-01T00:00:00.000Z')).toBeNull();
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('returns null for unknown symbols and malformed addresses without calling the RPC', async () => {
+    expect(await dexProvider.fetchPrice('NOTATOKEN', 'ethereum', now())).toBeNull();
+    expect(await dexProvider.fetchPrice('0x1234', 'ethereum', now())).toBeNull();
+    expect(await dexProvider.fetchPrice(`${UNI}00`, 'ethereum', now())).toBeNull();
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('returns null for tokens without a pool against WETH', async () => {
+    chain.addToken(LINK, 18);
+    chain.addV3Pool(LINK, USDC, 500, 18); // Only paired with USDC, which is not on the quote path
+
+    expect(await dexProvider.fetchPrice(LINK, 'ethereum', now())).toBeNull();
+  });
+
+  it('rejects for addresses that are not token contracts', async () => {
+    const address = '0x000000000000000000000000000000000000dEaD';
+    await expect(dexProvider.fetchPrice(address, 'ethereum', now())).rejects.toThrow();
+  });
+
+  it('rejects when the RPC fails', async () => {
+    call.mockRejectedValue(new Error('missing response'));
+    await expect(dexProvider.fetchPrice(UNI, 'ethereum', now())).rejects.toThrow('missing response');
+  });
+});
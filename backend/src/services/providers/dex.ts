@@ -0,0 +1,301 @@
+import { Alchemy, Utils } from 'alchemy-sdk';
+import alchemyClients from '../alchemyClients';
+import blockLookup from '../blockLookup';
+import tokenRegistry from '../tokenRegistry';
+import logger from '../../utils/logger';
+import { NetworkType, PriceProvider } from '../../types';
+
+interface DexNetworkConfig {
+  quotePath: string[]; // wrapped native token first, ending in a USD stablecoin valued at $1
+  v2Factory: string;
+  v3Factory: string;
+}
+
+type BlockTag = number | 'latest';
+type CallResult = ReturnType<Utils.Interface['decodeFunctionResult']>;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+// Uniswap V3 fee tiers searched for a pool, in hundredths of a basis point
+const V3_FEE_TIERS = [500, 3000, 10000];
+
+// Timestamps this close to now are priced at the latest block
+const RECENT_WINDOW = 5 * 60; // 5 minutes in seconds
+
+const Q96 = 2 ** 96;
+
+const DEX_NETWORKS: Partial<Record<NetworkType, DexNetworkConfig>> = {
+  ethereum: {
+    quotePath: [
+      '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
+      '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48' // USDC
+    ],
+    v2Factory: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
+    v3Factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984'
+  },
+  polygon: {
+    quotePath: [
+      '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', // WETH
+      '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359' // USDC
+    ],
+    v2Factory: '0x5757371414417b8C6CAad45bAeF941aBc7d3Ab32', // QuickSwap
+    v3Factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984'
+  },
+  arbitrum: {
+    quotePath: [
+      '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', // WETH
+      '0xaf88d065e77c8cC2239327C5EDb3A432268e5831' // USDC
+    ],
+    v2Factory: '0xf1D7CC64Fb4452F05c498126312eBE29f30Fbcf9',
+    v3Factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984'
+  },
+  optimism: {
+    quotePath: [
+      '0x4200000000000000000000000000000000000006', // WETH
+      '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85' // USDC
+    ],
+    v2Factory: '0x0c3c1c532F1e39EdF36BE9Fe0bE1410313E074Bf',
+    v3Factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984'
+  },
+  base: {
+    quotePath: [
+      '0x4200000000000000000000000000000000000006', // WETH
+      '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' // USDC
+    ],
+    v2Factory: '0x8909Dc15e40173Ff4699343b6eB8132c65e18eC6',
+    v3Factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD'
+  }
+};
+
+const erc20 = new Utils.Interface(['function decimals() view returns (uint8)']);
+const v2Factory = new Utils.Interface(['function getPair(address, address) view returns (address)']);
+const v2Pair = new Utils.Interface([
+  'function token0() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)'
+]);
+const v3Factory = new Utils.Interface(['function getPool(address, address, uint24) view returns (address)']);
+const v3Pool = new Utils.Interface([
+  'function token0() view returns (address)',
+  'function liquidity() view returns (uint128)',
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)'
+]);
+
+/**
+ * On-chain DEX price provider
+ * Reads Uniswap V3 `slot0` or V2 reserves through Alchemy RPC at the block of the
+ * requested timestamp and converts along the network's quote path (token -> WETH -> USDC),
+ * so any ERC-20 with a pool against WETH can be priced. USDC is taken as $1.
+ *
+ * Calls go through the shared Alchemy clients, so ALCHEMY_RPC_URL can point them at
+ * another JSON-RPC endpoint, such as the recorded stand-in in scripts/mockRpc.ts.
+ */
+class DexProvider implements PriceProvider {
+  readonly name = 'dex' as const;
+  readonly priority = 50;
+  private decimals: Map<string, number> = new Map();
+
+  supportsNetwork(network: NetworkType): boolean {
+    return DEX_NETWORKS[network] !== undefined;
+  }
+
+  async fetchPrice(token: string, network: NetworkType, timestamp: string): Promise<number | null> {
+    const config = DEX_NETWORKS[network];
+    if (!config) {
+      return null;
+    }
+
+    const address = this.resolveAddress(token, network, config);
+    if (!address) {
+      logger.warn(`No contract address for token: ${token} on ${network}`);
+      return null;
+    }
+
+    const quotePath = this.getQuotePath(address, config);
+    const blockTag = await this.getBlockTag(network, timestamp);
+    if (blockTag === null) {
+      return null;
+    }
+
+    const client = alchemyClients.get(network);
+
+    let price = 1;
+    for (let hop = 0; hop < quotePath.length - 1; hop++) {
+      const hopPrice = await this.getPoolPrice(client, network, config, quotePath[hop], quotePath[hop + 1], blockTag);
+      if (hopPrice === null) {
+        logger.warn(`No DEX pool for ${quotePath[hop]} / ${quotePath[hop + 1]} on ${network} at block ${blockTag}`);
+        return null;
+      }
+      price *= hopPrice;
+    }
+
+    return Number(price.toPrecision(8));
+  }
+
+  /**
+   * Price of `token` in units of `quote`, from the deepest V3 pool or else the V2 pair
+   */
+  private async getPoolPrice(
+    client: Alchemy,
+    network: NetworkType,
+    config: DexNetworkConfig,
+    token: string,
+    quote: string,
+    blockTag: BlockTag
+  ): Promise<number | null> {
+    const [tokenDecimals, quoteDecimals] = await Promise.all([
+      this.getDecimals(client, network, token, blockTag),
+      this.getDecimals(client, network, quote, blockTag)
+    ]);
+
+    const v3Price = await this.getV3Price(client, config.v3Factory, token, quote, tokenDecimals, quoteDecimals, blockTag);
+    if (v3Price !== null) {
+      return v3Price;
+    }
+
+    return this.getV2Price(client, config.v2Factory, token, quote, tokenDecimals, quoteDecimals, blockTag);
+  }
+
+  private async getV3Price(
+    client: Alchemy,
+    factory: string,
+    token: string,
+    quote: string,
+    tokenDecimals: number,
+    quoteDecimals: number,
+    blockTag: BlockTag
+  ): Promise<number | null> {
+    const pools = await Promise.all(V3_FEE_TIERS.map(async fee => {
+      const [pool] = await this.call(client, factory, v3Factory, 'getPool', [token, quote, fee], blockTag);
+      if (sameAddress(pool, ZERO_ADDRESS)) {
+        return null;
+      }
+      const [liquidity] = await this.call(client, pool, v3Pool, 'liquidity', [], blockTag);
+      return { pool: pool as string, liquidity: BigInt(liquidity.toString()) };
+    }));
+
+    const deepest = pools
+      .filter((pool): pool is { pool: string; liquidity: bigint } => pool !== null && pool.liquidity > 0n)
+      .sort((a, b) => (b.liquidity > a.liquidity ? 1 : b.liquidity < a.liquidity ? -1 : 0))[0];
+    if (!deepest) {
+      return null;
+    }
+
+    const [[token0], slot0] = await Promise.all([
+      this.call(client, deepest.pool, v3Pool, 'token0', [], blockTag),
+      this.call(client, deepest.pool, v3Pool, 'slot0', [], blockTag)
+    ]);
+
+    // sqrtPriceX96^2 / 2^192 is the raw amount of token1 per raw unit of token0
+    const sqrtPrice = Number(slot0.sqrtPriceX96.toString()) / Q96;
+    const rawPrice = sqrtPrice * sqrtPrice;
+    if (rawPrice === 0) {
+      return null;
+    }
+
+    const tokenIsToken0 = sameAddress(token0, token);
+    const rawTokenPrice = tokenIsToken0 ? rawPrice : 1 / rawPrice;
+    return rawTokenPrice * 10 ** (tokenDecimals - quoteDecimals);
+  }
+
+  private async getV2Price(
+    client: Alchemy,
+    factory: string,
+    token: string,
+    quote: string,
+    tokenDecimals: number,
+    quoteDecimals: number,
+    blockTag: BlockTag
+  ): Promise<number | null> {
+    const [pair] = await this.call(client, factory, v2Factory, 'getPair', [token, quote], blockTag);
+    if (sameAddress(pair, ZERO_ADDRESS)) {
+      return null;
+    }
+
+    const [[token0], reserves] = await Promise.all([
+      this.call(client, pair, v2Pair, 'token0', [], blockTag),
+      this.call(client, pair, v2Pair, 'getReserves', [], blockTag)
+    ]);
+
+    const reserve0 = Number(reserves.reserve0.toString());
+    const reserve1 = Number(reserves.reserve1.toString());
+    if (reserve0 === 0 || reserve1 === 0) {
+      return null;
+    }
+
+    const tokenIsToken0 = sameAddress(token0, token);
+    const [tokenReserve, quoteReserve] = tokenIsToken0 ? [reserve0, reserve1] : [reserve1, reserve0];
+    return (quoteReserve / tokenReserve) * 10 ** (tokenDecimals - quoteDecimals);
+  }
+
+  private async getDecimals(client: Alchemy, network: NetworkType, address: string, blockTag: BlockTag): Promise<number> {
+    const key = `${network}:${address.toLowerCase()}`;
+    const cached = this.decimals.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const registered = tokenRegistry.findByAddress(network, address);
+    const decimals = registered
+      ? registered.decimals
+      : Number((await this.call(client, address, erc20, 'decimals', [], blockTag))[0]);
+
+    this.decimals.set(key, decimals);
+    return decimals;
+  }
+
+  /**
+   * Block to read pool state at: the latest block for recent timestamps, else the block at the timestamp
+   */
+  private async getBlockTag(network: NetworkType, timestamp: string): Promise<BlockTag | null> {
+    const target = Math.floor(new Date(timestamp).getTime() / 1000);
+    if (target >= Math.floor(Date.now() / 1000) - RECENT_WINDOW) {
+      return 'latest';
+    }
+
+    const block = await blockLookup.getBlockAtTimestamp(network, target);
+    return block ? block.number : null;
+  }
+
+  private async call(
+    client: Alchemy,
+    to: string,
+    contract: Utils.Interface,
+    method: string,
+    args: unknown[],
+    blockTag: BlockTag
+  ): Promise<CallResult> {
+    const data = contract.encodeFunctionData(method, args);
+    const result = await client.core.call({ to, data }, blockTag);
+    return contract.decodeFunctionResult(method, result);
+  }
+
+  /**
+   * Hops from a token to the end of the quote path; tokens on the path join it where they appear
+   */
+  private getQuotePath(address: string, config: DexNetworkConfig): string[] {
+    const index = config.quotePath.findIndex(hop => sameAddress(hop, address));
+    return index >= 0 ? config.quotePath.slice(index) : [address, ...config.quotePath];
+  }
+
+  private resolveAddress(token: string, network: NetworkType, config: DexNetworkConfig): string | null {
+    if (ADDRESS_PATTERN.test(token)) {
+      return token;
+    }
+
+    const symbol = token.toUpperCase();
+    if (symbol === 'ETH' || symbol === 'WETH') {
+      return config.quotePath[0];
+    }
+
+    const registered = tokenRegistry.findBySymbol(symbol, network);
+    return registered?.network === network ? registered.address : null;
+  }
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+const dexProvider = new DexProvider();
+export default dexProvider;
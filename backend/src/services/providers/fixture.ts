@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../../utils/logger';
+import { NetworkType, PriceProvider } from '../../types';
+
+interface FixtureSample {
+  timestamp: number; // Unix timestamp
+  price: number;
+}
+
+/**
+ * Local fixture price provider
+ * Serves prices from a JSON file shaped as { network: { token: [{ timestamp, price }] } }
+ * so the API can be exercised without reaching any upstream service
+ */
+class FixtureProvider implements PriceProvider {
+  readonly name = 'fixture' as const;
+  readonly priority = 0;
+  private samples: Map<string, FixtureSample[]> | null = null;
+
+  supportsNetwork(network: NetworkType): boolean {
+    const prefix = `${network}:`;
+    return Array.from(this.getSamples().keys()).some(key => key.startsWith(prefix));
+  }
+
+  async fetchPrice(token: string, network: NetworkType, timestamp: string): Promise<number | null> {
+    const series = this.getSamples().get(this.key(token, network));
+    if (!series || series.length === 0) {
+      return null;
+    }
+
+    // Use the latest sample at or before the requested timestamp
+    const target = Math.floor(new Date(timestamp).getTime() / 1000);
+    let match: FixtureSample | null = null;
+    for (const sample of series) {
+      if (sample.timestamp > target) {
+        break;
+      }
+      match = sample;
+    }
+
+    return match ? match.price : null;
+  }
+
+  /**
+   * Reload fixtures from disk (e.g. after editing the file in development)
+   */
+  reload(): void {
+    this.samples = null;
+  }
+
+  private getSamples(): Map<string, FixtureSample[]> {
+    if (this.samples) {
+      return this.samples;
+    }
+
+    this.samples = new Map();
+    const filePath = path.resolve(process.env.PRICE_FIXTURES_PATH || 'fixtures/prices.json');
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, Record<string, Array<{ timestamp: string; price: number }>>>;
+
+      for (const [network, tokens] of Object.entries(raw)) {
+        for (const [token, entries] of Object.entries(tokens)) {
+          const series = entries
+            .map(entry => ({
+              timestamp: Math.floor(new Date(entry.timestamp).getTime() / 1000),
+              price: entry.price
+            }))
+            .filter(sample => !isNaN(sample.timestamp) && typeof sample.price === 'number')
+            .sort((a, b) => a.timestamp - b.timestamp);
+
+          this.samples.set(this.key(token, network), series);
+        }
+      }
+
+      logger.info(`Loaded price fixtures for ${this.samples.size} tokens from ${filePath}`);
+    } catch (error) {
+      logger.warn(`Could not load price fixtures from ${filePath}:`, error);
+    }
+
+    return this.samples;
+  }
+
+  private key(token: string, network: string): string {
+    return `${network.toLowerCase()}:${token.toUpperCase()}`;
+  }
+}
+
+const fixtureProvider = new FixtureProvider();
+export default fixtureProvider;
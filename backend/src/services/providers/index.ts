@@ -0,0 +1,86 @@
+import logger from '../../utils/logger';
+import { NetworkType, PriceProvider, ProviderName, PRICE_PROVIDER_NAMES } from '../../types';
+import coinGeckoProvider from './coingecko';
+import dexProvider from './dex';
+import fixtureProvider from './fixture';
+
+interface RegisteredProvider {
+  provider: PriceProvider;
+  priority: number;
+}
+
+/**
+ * Registry of price providers
+ * Providers are consulted in descending priority order until one returns a price
+ */
+class PriceProviderRegistry {
+  private providers: Map<ProviderName, RegisteredProvider> = new Map();
+
+  /**
+   * Register a provider, optionally overriding its default priority
+   */
+  register(provider: PriceProvider, priority: number = provider.priority): void {
+    this.providers.set(provider.name, { provider, priority });
+    logger.info(`Price provider registered: ${provider.name} (priority ${priority})`);
+  }
+
+  unregister(name: ProviderName): boolean {
+    return this.providers.delete(name);
+  }
+
+  get(name: ProviderName): PriceProvider | null {
+    return this.providers.get(name)?.provider || null;
+  }
+
+  /**
+   * Get providers able to price tokens on a network, highest priority first
+   */
+  getProviders(network?: NetworkType): PriceProvider[] {
+    return Array.from(this.providers.values())
+      .filter(entry => !network || entry.provider.supportsNetwork(network))
+      .sort((a, b) => b.priority - a.priority)
+      .map(entry => entry.provider);
+  }
+
+  getProviderNames(): ProviderName[] {
+    return this.getProviders().map(provider => provider.name);
+  }
+}
+
+const availableProviders: Record<ProviderName, PriceProvider> = {
+  coingecko: coinGeckoProvider,
+  dex: dexProvider,
+  fixture: fixtureProvider
+};
+
+/**
+ * Parse PRICE_PROVIDERS, a comma separated list of `name` or `name:priority` entries
+ */
+function parseProviderConfig(value: string): Array<{ name: ProviderName; priority?: number }> {
+  const entries: Array<{ name: ProviderName; priority?: number }> = [];
+
+  for (const item of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [name, priority] = item.split(':');
+
+    if (!(PRICE_PROVIDER_NAMES as readonly string[]).includes(name)) {
+      logger.warn(`Unknown price provider in PRICE_PROVIDERS: ${name}`);
+      continue;
+    }
+
+    const parsedPriority = priority !== undefined ? parseInt(priority) : undefined;
+    entries.push({
+      name: name as ProviderName,
+      priority: parsedPriority !== undefined && !isNaN(parsedPriority) ? parsedPriority : undefined
+    });
+  }
+
+  return entries;
+}
+
+const priceProviderRegistry = new PriceProviderRegistry();
+
+for (const { name, priority } of parseProviderConfig(process.env.PRICE_PROVIDERS || 'coingecko')) {
+  priceProviderRegistry.register(availableProviders[name], priority);
+}
+
+export default priceProviderRegistry;
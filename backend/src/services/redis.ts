@@ -1,6 +1,10 @@
+import crypto from 'crypto';
 import { createClient, RedisClientType } from 'redis';
 import logger from '../utils/logger';
 
+// Keys fetched per SCAN call and deleted per DEL
+const SCAN_BATCH_SIZE = 100;
+
 class RedisService {
   private client: RedisClientType | null = null;
   private isConnected: boolean = false;
@@ -130,6 +134,122 @@ class RedisService {
     }
   }
 
+  /**
+   * Delete every key matching a glob pattern, found with SCAN rather than KEYS so Redis is not blocked
+   * @returns Number of keys deleted
+   */
+  async delPattern(pattern: string): Promise<number> {
+    try {
+      if (!this.isConnected || !this.client) {
+        logger.warn('Redis not connected, skipping pattern delete operation');
+        return 0;
+      }
+
+      let deleted = 0;
+      let batch: string[] = [];
+      for await (const key of this.client.scanIterator({ MATCH: pattern, COUNT: SCAN_BATCH_SIZE })) {
+        batch.push(key);
+        if (batch.length >= SCAN_BATCH_SIZE) {
+          deleted += await this.client.del(batch);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        deleted += await this.client.del(batch);
+      }
+
+      logger.debug(`Redis DEL pattern ${pattern}: ${deleted} deleted`);
+      return deleted;
+    } catch (error) {
+      logger.error(`Redis pattern delete error for ${pattern}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Count the keys matching a glob pattern
+   */
+  async countKeys(pattern: string): Promise<number> {
+    try {
+      if (!this.isConnected || !this.client) {
+        return 0;
+      }
+
+      let count = 0;
+      for await (const _key of this.client.scanIterator({ MATCH: pattern, COUNT: SCAN_BATCH_SIZE })) {
+        count++;
+      }
+      return count;
+    } catch (error) {
+      logger.error(`Redis key count error for ${pattern}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Server statistics from INFO, as field -> value
+   */
+  async getInfo(section?: string): Promise<Record<string, string>> {
+    try {
+      if (!this.isConnected || !this.client) {
+        return {};
+      }
+
+      const info = await this.client.info(section);
+      return Object.fromEntries(
+        info.split('\r\n')
+          .filter(line => line.includes(':') && !line.startsWith('#'))
+          // Split on the first colon only; values such as paths and module lists contain colons
+          .map(line => {
+            const separator = line.indexOf(':');
+            return [line.slice(0, separator), line.slice(separator + 1)];
+          })
+      );
+    } catch (error) {
+      logger.error('Redis INFO error:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Take a lock that expires after `ttlMs` unless released first
+   * @returns Token to release the lock with, or null if it is held elsewhere or Redis is unavailable
+   */
+  async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    try {
+      if (!this.isConnected || !this.client) {
+        return null;
+      }
+
+      const token = crypto.randomUUID();
+      const result = await this.client.set(key, token, { NX: true, PX: ttlMs });
+      return result === 'OK' ? token : null;
+    } catch (error) {
+      logger.error(`Redis lock error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Release a lock, unless it expired and was taken by someone else in the meantime
+   */
+  async releaseLock(key: string, token: string): Promise<boolean> {
+    try {
+      if (!this.isConnected || !this.client) {
+        return false;
+      }
+
+      const result = await this.client.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+        { keys: [key], arguments: [token] }
+      );
+      return result === 1;
+    } catch (error) {
+      logger.error(`Redis unlock error for key ${key}:`, error);
+      return false;
+    }
+  }
+
   async flush(): Promise<boolean> {
     try {
       if (!this.isConnected || !this.client) {
@@ -150,13 +270,11 @@ class RedisService {
     return this.isConnected;
   }
 
-  generateKey(token: string, network: string, timestamp: string): string {
-    // Ensure all parameters are strings and handle undefined/null
-    const safeToken = token?.toString()?.toLowerCase() || 'unknown';
-    const safeNetwork = network?.toString()?.toLowerCase() || 'unknown';
-    const safeTimestamp = timestamp?.toString() || new Date().toISOString();
-
-    return `price:${safeToken}:${safeNetwork}:${safeTimestamp}`;
+  /**
+   * Whether Redis is configured, connected or not
+   */
+  isConfigured(): boolean {
+    return this.isEnabled;
   }
 }
 
@@ -0,0 +1,216 @@
+import type { default as TieredCache } from './tieredCache';
+
+const mockRedis = {
+  isReady: jest.fn(),
+  isConfigured: jest.fn(),
+  get: jest.fn(),
+  set: jest.fn(),
+  del: jest.fn(),
+  delPattern: jest.fn(),
+  flush: jest.fn()
+};
+
+jest.mock('./redis', () => ({ __esModule: true, default: mockRedis }));
+
+const MEMORY_CACHE_TTL = 30;
+
+let tieredCache: typeof TieredCache;
+
+// Each test gets a fresh cache holding at most 3 entries
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.useFakeTimers({ now: new Date('2026-03-10T12:00:00.000Z') });
+  mockRedis.isReady.mockReturnValue(true);
+  mockRedis.isConfigured.mockReturnValue(true);
+  mockRedis.get.mockResolvedValue(null);
+  mockRedis.set.mockResolvedValue(true);
+
+  process.env.MEMORY_CACHE_MAX_ENTRIES = '3';
+  process.env.MEMORY_CACHE_TTL = String(MEMORY_CACHE_TTL);
+  await jest.isolateModulesAsync(async () => {
+    tieredCache = (await import('./tieredCache')).default;
+  });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  delete process.env.MEMORY_CACHE_MAX_ENTRIES;
+  delete process.env.MEMORY_CACHE_TTL;
+});
+
+const elapse = (seconds: number): void => {
+  jest.setSystemTime(Date.now() + seconds * 1000);
+};
+
+describe('tieredCache memory tier', () => {
+  beforeEach(() => {
+    mockRedis.isReady.mockReturnValue(false);
+  });
+
+  it('evicts the least recently used entry beyond its capacity', async () => {
+    await tieredCache.set('a', '1');
+    await tieredCache.set('b', '2');
+    await tieredCache.set('c', '3');
+    expect(await tieredCache.get('a')).toBe('1');
+
+    await tieredCache.set('d', '4');
+
+    expect(await tieredCache.get('b')).toBeNull();
+    expect(await tieredCache.get('a')).toBe('1');
+    expect(await tieredCache.get('c')).toBe('3');
+    expect(await tieredCache.get('d')).toBe('4');
+    expect(tieredCache.getMetrics().memory).toMatchObject({ entries: 3, maxEntries: 3, evictions: 1 });
+  });
+
+  it('replaces entries without evicting others', async () => {
+    await tieredCache.set('a', '1');
+    await tieredCache.set('b', '2');
+    await tieredCache.set('c', '3');
+    await tieredCache.set('a', '10');
+
+    expect(await tieredCache.get('a')).toBe('10');
+    expect(await tieredCache.get('b')).toBe('2');
+    expect(tieredCache.getMetrics().memory).toMatchObject({ entries: 3, evictions: 0 });
+  });
+
+  it('caches alone for at most MEMORY_CACHE_TTL while Redis is down', async () => {
+    expect(await tieredCache.set('key', 'value', 3600)).toBe(true);
+    expect(mockRedis.set).not.toHaveBeenCalled();
+
+    elapse(MEMORY_CACHE_TTL - 1);
+    expect(await tieredCache.get('key')).toBe('value');
+
+    elapse(1);
+    expect(await tieredCache.get('key')).toBeNull();
+    expect(tieredCache.getMetrics().memory.entries).toBe(0);
+  });
+
+  it('keeps the full TTL without Redis configured', async () => {
+    mockRedis.isConfigured.mockReturnValue(false);
+    await tieredCache.set('key', 'value', 3600);
+
+    elapse(3599);
+    expect(await tieredCache.get('key')).toBe('value');
+
+    elapse(1);
+    expect(await tieredCache.get('key')).toBeNull();
+  });
+
+  it('keeps shorter TTLs', async () => {
+    await tieredCache.set('key', 'value', 5);
+
+    elapse(5);
+    expect(await tieredCache.get('key')).toBeNull();
+  });
+
+  it('deletes keys matching a glob pattern', async () => {
+    await tieredCache.set('price:eth:ethereum:60', '1');
+    await tieredCache.set('price:eth:polygon:60', '2');
+    await tieredCache.set('price:ethx:ethereum:60', '3');
+
+    expect(await tieredCache.delPattern('price:eth:*')).toBe(2);
+    expect(await tieredCache.get('price:ethx:ethereum:60')).toBe('3');
+    expect(mockRedis.delPattern).not.toHaveBeenCalled();
+  });
+
+  it('clears every entry without Redis configured', async () => {
+    mockRedis.isConfigured.mockReturnValue(false);
+    await tieredCache.set('a', '1');
+    await tieredCache.set('b', '2');
+
+    expect(await tieredCache.clear()).toBe(true);
+    expect(await tieredCache.get('a')).toBeNull();
+    expect(tieredCache.getMetrics().memory.entries).toBe(0);
+    expect(mockRedis.flush).not.toHaveBeenCalled();
+  });
+});
+
+describe('tieredCache with Redis', () => {
+  it('writes both tiers, capping the memory TTL', async () => {
+    expect(await tieredCache.set('key', 'value', 3600)).toBe(true);
+    expect(mockRedis.set).toHaveBeenCalledWith('key', 'value', 3600);
+    expect(await tieredCache.get('key')).toBe('value');
+
+    elapse(MEMORY_CACHE_TTL);
+    mockRedis.get.mockResolvedValue('value');
+    expect(await tieredCache.get('key')).toBe('value');
+    expect(mockRedis.get).toHaveBeenCalledWith('key');
+  });
+
+  it('expires entries written while Redis was down within MEMORY_CACHE_TTL after it reconnects', async () => {
+    mockRedis.isReady.mockReturnValue(false);
+    await tieredCache.set('key', 'stale', 3600);
+
+    mockRedis.isReady.mockReturnValue(true);
+    elapse(MEMORY_CACHE_TTL);
+    // Invalidated elsewhere while this instance was disconnected
+    expect(await tieredCache.get('key')).toBeNull();
+    expect(mockRedis.get).toHaveBeenCalledWith('key');
+  });
+
+  it('copies Redis hits into memory', async () => {
+    mockRedis.get.mockResolvedValue('value');
+
+    expect(await tieredCache.get('key')).toBe('value');
+    expect(await tieredCache.get('key')).toBe('value');
+    expect(mockRedis.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('deletes from both tiers', async () => {
+    await tieredCache.set('key', 'value');
+    mockRedis.del.mockResolvedValue(true);
+
+    expect(await tieredCache.del('key')).toBe(true);
+    expect(mockRedis.del).toHaveBeenCalledWith('key');
+    expect(await tieredCache.get('key')).toBeNull();
+  });
+
+  it('clears both tiers', async () => {
+    await tieredCache.set('key', 'value');
+    mockRedis.flush.mockResolvedValue(true);
+
+    expect(await tieredCache.clear()).toBe(true);
+    expect(mockRedis.flush).toHaveBeenCalledTimes(1);
+    expect(await tieredCache.get('key')).toBeNull();
+  });
+});
+
+describe('tieredCache.getMetrics', () => {
+  it('reports no hit rate before any lookup', () => {
+    expect(tieredCache.getMetrics()).toEqual({
+      memory: { hits: 0, misses: 0, hitRate: 0, entries: 0, maxEntries: 3, evictions: 0 },
+      redis: { hits: 0, misses: 0, hitRate: 0, connected: true },
+      overall: { hits: 0, misses: 0, hitRate: 0 }
+    });
+  });
+
+  it('counts hits and misses per tier and overall', async () => {
+    await tieredCache.set('memory', '1');
+    mockRedis.get.mockImplementation(async (key: string) => (key === 'redis' ? '2' : null));
+
+    await tieredCache.get('memory'); // memory hit
+    await tieredCache.get('redis'); // memory miss, Redis hit
+    await tieredCache.get('redis'); // memory hit
+    await tieredCache.get('missing'); // miss in both
+
+    expect(tieredCache.getMetrics()).toEqual({
+      memory: { hits: 2, misses: 2, hitRate: 0.5, entries: 2, maxEntries: 3, evictions: 0 },
+      redis: { hits: 1, misses: 1, hitRate: 0.5, connected: true },
+      overall: { hits: 3, misses: 1, hitRate: 0.75 }
+    });
+  });
+
+  it('counts misses while Redis is unavailable against memory only', async () => {
+    mockRedis.isReady.mockReturnValue(false);
+
+    await tieredCache.get('a');
+    await tieredCache.get('b');
+
+    expect(mockRedis.get).not.toHaveBeenCalled();
+    expect(tieredCache.getMetrics()).toMatchObject({
+      memory: { hits: 0, misses: 2 },
+      redis: { hits: 0, misses: 0, connected: false },
+      overall: { hits: 0, misses: 2, hitRate: 0 }
+    });
+  });
+});
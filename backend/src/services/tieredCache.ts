@@ -0,0 +1,213 @@
+import redisService from './redis';
+
+// Bound on the in-process tier; least recently used entries are evicted first
+const MEMORY_CACHE_MAX_ENTRIES = parseInt(process.env.MEMORY_CACHE_MAX_ENTRIES || '1000');
+
+// Other instances can invalidate entries in Redis, so local copies are kept briefly
+const MEMORY_CACHE_TTL = parseInt(process.env.MEMORY_CACHE_TTL || '30'); // seconds
+
+const DEFAULT_TTL = parseInt(process.env.REDIS_TTL || '3600'); // seconds
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number; // milliseconds
+}
+
+export interface CacheTierMetrics {
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1, 0 before any lookup
+}
+
+export interface TieredCacheMetrics {
+  memory: CacheTierMetrics & {
+    entries: number;
+    maxEntries: number;
+    evictions: number;
+  };
+  redis: CacheTierMetrics & {
+    connected: boolean;
+  };
+  overall: CacheTierMetrics;
+}
+
+/**
+ * Bounded LRU of string values with per-entry expiry
+ * A Map keeps insertion order, so re-inserting an entry on access makes its first key the least recently used.
+ */
+class MemoryCache {
+  private entries: Map<string, MemoryEntry> = new Map();
+  evictions = 0;
+
+  constructor(private maxEntries: number) {}
+
+  get(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: string, ttl: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  del(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  delPattern(pattern: string): number {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    const regex = new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+
+    let deleted = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (regex.test(key)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get capacity(): number {
+    return this.maxEntries;
+  }
+}
+
+/**
+ * Two-tier cache: a bounded in-process LRU in front of Redis
+ *
+ * Same interface as `redisService.get/set/del`. Reads try memory first and fill it
+ * from Redis hits; writes go to both tiers. While Redis is configured, memory copies
+ * expire within MEMORY_CACHE_TTL so invalidations made elsewhere are picked up,
+ * including entries written while Redis was unavailable once it reconnects. Without
+ * Redis the memory tier is the only cache and keeps entries for their full TTL.
+ */
+class TieredCacheService {
+  private memory = new MemoryCache(MEMORY_CACHE_MAX_ENTRIES);
+  private memoryHits = 0;
+  private memoryMisses = 0;
+  private redisHits = 0;
+  private redisMisses = 0;
+
+  async get(key: string): Promise<string | null> {
+    const local = this.memory.get(key);
+    if (local !== null) {
+      this.memoryHits++;
+      return local;
+    }
+    this.memoryMisses++;
+
+    if (!redisService.isReady()) {
+      return null;
+    }
+
+    const value = await redisService.get(key);
+    if (value === null) {
+      this.redisMisses++;
+      return null;
+    }
+
+    this.redisHits++;
+    this.memory.set(key, value, MEMORY_CACHE_TTL);
+    return value;
+  }
+
+  /**
+   * Store a value in both tiers
+   * @param ttl - Seconds to keep it, REDIS_TTL by default
+   * @returns True if the value was stored in Redis, or in memory alone while Redis is unavailable
+   */
+  async set(key: string, value: string, ttl?: number): Promise<boolean> {
+    const expiry = ttl || DEFAULT_TTL;
+    const memoryExpiry = redisService.isConfigured() ? Math.min(expiry, MEMORY_CACHE_TTL) : expiry;
+    this.memory.set(key, value, memoryExpiry);
+
+    if (!redisService.isReady()) {
+      return true;
+    }
+    return redisService.set(key, value, expiry);
+  }
+
+  async del(key: string): Promise<boolean> {
+    const local = this.memory.del(key);
+    const remote = redisService.isReady() ? await redisService.del(key) : false;
+    return local || remote;
+  }
+
+  /**
+   * Delete every key matching a glob pattern from both tiers
+   * Other instances drop their memory copies when those expire.
+   * @returns Number of keys deleted, counting keys held in both tiers once
+   */
+  async delPattern(pattern: string): Promise<number> {
+    const local = this.memory.delPattern(pattern);
+    const remote = redisService.isReady() ? await redisService.delPattern(pattern) : 0;
+    return Math.max(local, remote);
+  }
+
+  /**
+   * Empty both tiers
+   * @returns True if Redis was flushed too, or is not configured
+   */
+  async clear(): Promise<boolean> {
+    this.memory.clear();
+    return redisService.isConfigured() ? redisService.flush() : true;
+  }
+
+  getMetrics(): TieredCacheMetrics {
+    const rate = (hits: number, misses: number): number =>
+      hits + misses > 0 ? Number((hits / (hits + misses)).toFixed(4)) : 0;
+    const hits = this.memoryHits + this.redisHits;
+    const misses = this.memoryMisses - this.redisHits;
+
+    return {
+      memory: {
+        hits: this.memoryHits,
+        misses: this.memoryMisses,
+        hitRate: rate(this.memoryHits, this.memoryMisses),
+        entries: this.memory.size,
+        maxEntries: this.memory.capacity,
+        evictions: this.memory.evictions
+      },
+      redis: {
+        hits: this.redisHits,
+        misses: this.redisMisses,
+        hitRate: rate(this.redisHits, this.redisMisses),
+        connected: redisService.isReady()
+      },
+      overall: {
+        hits,
+        misses,
+        hitRate: rate(hits, misses)
+      }
+    };
+  }
+}
+
+const tieredCache = new TieredCacheService();
+export default tieredCache;
@@ -0,0 +1,134 @@
+import defaultTokenList from '../data/tokenList.json';
+import mongoService from './mongodb';
+import logger from '../utils/logger';
+import { NetworkType, ProviderName, TokenInfo } from '../types';
+
+// Versioned token list shipped with the service
+interface TokenList {
+  name: string;
+  version: { major: number; minor: number; patch: number };
+  symbols: Record<string, Partial<Record<ProviderName, string>>>;
+  tokens: TokenInfo[];
+}
+
+export interface RegisteredToken extends TokenInfo {
+  origin: 'list' | 'admin';
+}
+
+/**
+ * Token registry
+ * Maps (network, contract address) pairs and symbols to provider IDs.
+ * Entries come from the bundled token list, overlaid with entries added
+ * through the admin API and persisted in MongoDB.
+ */
+class TokenRegistryService {
+  private tokenList: TokenList;
+  private byAddress: Map<string, RegisteredToken> = new Map();
+  private bySymbol: Map<string, RegisteredToken[]> = new Map();
+
+  constructor() {
+    this.tokenList = defaultTokenList as TokenList;
+
+    for (const token of this.tokenList.tokens) {
+      this.index({ ...token, origin: 'list' });
+    }
+
+    logger.info(`Token registry loaded ${this.tokenList.tokens.length} tokens from list v${this.getListVersion()}`);
+  }
+
+  /**
+   * Load admin-added tokens from MongoDB on top of the bundled list
+   */
+  async initialize(): Promise<void> {
+    const storedTokens = await mongoService.getTokens();
+
+    for (const token of storedTokens) {
+      this.index({ ...token, origin: 'admin' });
+    }
+
+    logger.info(`Token registry loaded ${storedTokens.length} tokens from MongoDB`);
+  }
+
+  getListVersion(): string {
+    const { major, minor, patch } = this.tokenList.version;
+    return `${major}.${minor}.${patch}`;
+  }
+
+  findByAddress(network: string, address: string): RegisteredToken | null {
+    return this.byAddress.get(this.addressKey(network, address)) || null;
+  }
+
+  /**
+   * Find a token by symbol, preferring an entry on the requested network
+   */
+  findBySymbol(symbol: string, network?: string): RegisteredToken | null {
+    const candidates = this.bySymbol.get(symbol.toUpperCase()) || [];
+    if (network) {
+      const match = candidates.find(token => token.network === network.toLowerCase());
+      if (match) {
+        return match;
+      }
+    }
+    return candidates[0] || null;
+  }
+
+  /**
+   * Resolve the provider-specific ID for a token given as a contract address or symbol
+   */
+  getProviderId(token: string, network: string, provider: ProviderName): string | null {
+    if (/^0x[a-fA-F0-9]{40}$/.test(token)) {
+      return this.findByAddress(network, token)?.providerIds?.[provider] || null;
+    }
+
+    const symbol = token.toUpperCase();
+    const onNetwork = this.findBySymbol(symbol, network);
+    if (onNetwork?.network === network.toLowerCase() && onNetwork.providerIds?.[provider]) {
+      return onNetwork.providerIds[provider]!;
+    }
+
+    return this.tokenList.symbols[symbol]?.[provider] || onNetwork?.providerIds?.[provider] || null;
+  }
+
+  /**
+   * Add or replace a registry entry and persist it in MongoDB
+   */
+  async addToken(tokenInfo: TokenInfo): Promise<RegisteredToken> {
+    const stored = await mongoService.upsertToken(tokenInfo);
+    if (!stored) {
+      throw new Error('MongoDB not connected, cannot persist token');
+    }
+
+    const token: RegisteredToken = {
+      ...tokenInfo,
+      symbol: tokenInfo.symbol.toUpperCase(),
+      address: tokenInfo.address.toLowerCase(),
+      network: tokenInfo.network.toLowerCase() as NetworkType,
+      origin: 'admin'
+    };
+    this.index(token);
+
+    logger.info(`Token registered: ${token.symbol} (${token.address}) on ${token.network}`);
+    return token;
+  }
+
+  private index(token: RegisteredToken): void {
+    const key = this.addressKey(token.network, token.address);
+    const previous = this.byAddress.get(key);
+    this.byAddress.set(key, token);
+
+    // Replace any previous entry for the same address in the symbol index
+    const symbol = token.symbol.toUpperCase();
+    if (previous) {
+      const previousSymbol = previous.symbol.toUpperCase();
+      this.bySymbol.set(previousSymbol, (this.bySymbol.get(previousSymbol) || []).filter(entry => entry !== previous));
+    }
+    this.bySymbol.set(symbol, [...(this.bySymbol.get(symbol) || []), token]);
+  }
+
+  private addressKey(network: string, address: string): string {
+    return `${network.toLowerCase()}:${address.toLowerCase()}`;
+  }
+}
+
+const tokenRegistry = new TokenRegistryService();
+export default tokenRegistry;
@@ -1,3 +1,5 @@
+import type { RateLimitInfo } from 'express-rate-limit';
+
 export interface PriceRequest {
   token: string;
   network: string;
@@ -6,16 +8,55 @@ export interface PriceRequest {
 
 export interface PriceResponse {
   price: number;
-  source: 'cache' | 'alchemy' | 'interpolated';
+  source: SourceType;
   timestamp: string;
   token: string;
   network: string;
+  method?: InterpolationMethod; // set on interpolated prices
+  extrapolation?: ExtrapolationMode; // set on extrapolated prices
+  confidence?: number; // 0-1, 1 for provider prices
+  staleness?: number; // seconds between the timestamp and the nearest known price
+  basis?: PriceBasis; // known prices an interpolated or extrapolated price was derived from
+  aggregation?: AggregationMethod; // set on aggregated prices
+  quotes?: PriceQuote[]; // per-provider prices an aggregated price was built from
+  divergence?: number; // spread between the quotes as a percentage of the aggregated price
+  originalSource?: SourceType; // source that produced a price served from the cache
+  cachedAt?: string; // when a price served from the cache was stored
+}
+
+export interface PriceQuote {
+  source: ProviderName;
+  price: number;
+}
+
+export interface PriceAnchor {
+  timestamp: string;
+  price: number;
+}
+
+export interface PriceBasis {
+  before: PriceAnchor | null;
+  after: PriceAnchor | null;
+}
+
+export interface BatchPriceRequest {
+  items: Array<Omit<PriceRequest, 'timestamp'> & { timestamp?: string }>;
+}
+
+export interface BatchPriceResult {
+  index: number;
+  request: PriceRequest;
+  success: boolean;
+  data?: PriceResponse;
+  error?: string;
+  message?: string;
 }
 
 export interface ScheduleRequest {
   token: string;
   network: string;
   interval?: string; // cron format
+  timezone?: string; // IANA timezone the interval is evaluated in, defaults to UTC
   enabled?: boolean;
 }
 
@@ -25,18 +66,38 @@ export interface ScheduleResponse {
   jobId: string;
   estimatedTime: number;
   scheduledAt: string;
+  nextRuns: string[];
+  queueJobId?: string; // queue job of the initial run, usable as runId for the events stream
 }
 
 export interface CacheData {
-  price: number;
-  source: 'cache' | 'alchemy' | 'interpolated';
-  timestamp: string;
+  response: PriceResponse;
   cachedAt: string;
 }
 
 export interface AlchemyPriceData {
   price: number;
   timestamp: string;
+  source: ProviderName;
+}
+
+export interface AggregatedPriceData {
+  price: number;
+  timestamp: string;
+  source: 'aggregated';
+  aggregation: AggregationMethod;
+  quotes: PriceQuote[];
+  divergence: number;
+}
+
+export const PRICE_PROVIDER_NAMES = ['coingecko', 'dex', 'fixture'] as const;
+export type ProviderName = typeof PRICE_PROVIDER_NAMES[number];
+
+export interface PriceProvider {
+  readonly name: ProviderName;
+  readonly priority: number; // higher priorities are tried first
+  supportsNetwork(network: NetworkType): boolean;
+  fetchPrice(token: string, network: NetworkType, timestamp: string): Promise<number | null>;
 }
 
 export interface JobData {
@@ -44,12 +105,34 @@ export interface JobData {
   token: string;
   network: string;
   interval: string;
+  timezone?: string;
   enabled: boolean;
   createdAt: string;
   lastRun?: string;
   nextRun?: string;
 }
 
+export interface QuarantineEntry {
+  id: string;
+  token: string;
+  network: string;
+  timestamp: string;
+  price: number;
+  source: string;
+  reasons: string[];
+  median: number | null; // of the nearby stored prices
+  mad: number | null; // median absolute deviation of the nearby stored prices
+  score: number | null; // robust z-score of the price
+  neighbours: number;
+  quarantinedAt: string;
+}
+
+export interface BlockInfo {
+  network: string;
+  number: number;
+  timestamp: number; // Unix timestamp
+}
+
 export interface ApiError {
   message: string;
   code: string;
@@ -57,6 +140,18 @@ export interface ApiError {
   details?: any;
 }
 
+// Fields set on requests by the rate limiters and the cache middleware
+declare global {
+  namespace Express {
+    interface Request {
+      rateLimit?: RateLimitInfo;
+      cacheKey?: string;
+      redisKey?: string;
+      cacheStatus?: 'healthy' | 'unhealthy';
+    }
+  }
+}
+
 export interface RequestWithCache {
   redisKey?: string;
   cacheData?: CacheData;
@@ -66,8 +161,17 @@ export interface RequestWithCache {
   headers: any;
 }
 
+export const INTERPOLATION_METHODS = ['linear', 'previous', 'spline', 'log-linear'] as const;
+export type InterpolationMethod = typeof INTERPOLATION_METHODS[number];
+
+export const EXTRAPOLATION_MODES = ['carry', 'trend'] as const;
+export type ExtrapolationMode = typeof EXTRAPOLATION_MODES[number];
+
+export const AGGREGATION_METHODS = ['median', 'trimmed-mean'] as const;
+export type AggregationMethod = typeof AGGREGATION_METHODS[number];
+
 export type NetworkType = 'ethereum' | 'polygon' | 'arbitrum' | 'optimism' | 'base';
-export type SourceType = 'cache' | 'alchemy' | 'interpolated';
+export type SourceType = 'cache' | 'alchemy' | 'interpolated' | 'extrapolated' | 'aggregated' | ProviderName;
 
 export interface TokenInfo {
   symbol: string;
@@ -75,15 +179,41 @@ export interface TokenInfo {
   address: string;
   decimals: number;
   network: NetworkType;
+  providerIds?: Partial<Record<ProviderName, string>>;
+}
+
+export interface Candle {
+  timestamp: string; // bucket start
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  samples: number;
+  interpolated: boolean; // true when any sample in the bucket was interpolated
+}
+
+export type HistoryPointKind = 'stored' | 'fetched' | 'interpolated';
+
+export interface PriceHistoryPoint {
+  timestamp: string;
+  price: number;
+  source: SourceType;
+  kind: HistoryPointKind;
+  confidence?: number;
 }
 
 export interface PriceHistory {
-  prices: Array<{
-    timestamp: string;
-    price: number;
-    source: SourceType;
-  }>;
+  prices: PriceHistoryPoint[];
   token: string;
   network: string;
   period: string;
+  interval: string;
+  missingRanges: Array<{
+    from: string;
+    to: string;
+  }>;
+  backfill?: {
+    jobId: string;
+    status: 'queued';
+  } | null;
 }
@@ -0,0 +1,9 @@
+// Silent logger for tests: jest.mock('../utils/logger')
+const logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn()
+};
+
+export default logger;
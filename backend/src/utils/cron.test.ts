@@ -0,0 +1,89 @@
+import { getNextRunTimes, isValidTimezone, normalizeCronExpression, validateCronExpression } from './cron';
+
+const FROM = new Date('2026-03-10T12:34:56.000Z');
+
+describe('normalizeCronExpression', () => {
+  it('lowercases macros and maps @annually to @yearly', () => {
+    expect(normalizeCronExpression(' @DAILY ')).toBe('@daily');
+    expect(normalizeCronExpression('@annually')).toBe('@yearly');
+    expect(normalizeCronExpression('@Annually')).toBe('@yearly');
+  });
+
+  it('only trims field expressions', () => {
+    expect(normalizeCronExpression('  0 9 * * MON-FRI ')).toBe('0 9 * * MON-FRI');
+  });
+});
+
+describe('validateCronExpression', () => {
+  it.each(['@yearly', '@annually', '@monthly', '@weekly', '@daily', '@hourly', '@DAILY', '@Annually'])(
+    'accepts the macro %s',
+    (macro) => {
+      const result = validateCronExpression(macro);
+      expect(result.valid).toBe(true);
+      expect(result.nextRuns).toHaveLength(5);
+    }
+  );
+
+  it('accepts 5 and 6 field expressions', () => {
+    expect(validateCronExpression('*/5 * * * *').valid).toBe(true);
+    expect(validateCronExpression('0 */5 * * * *').valid).toBe(true);
+    expect(validateCronExpression('0 9 * * MON-FRI').valid).toBe(true);
+  });
+
+  it('rejects unknown macros', () => {
+    const result = validateCronExpression('@fortnightly');
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('Unknown cron macro');
+    expect(result.nextRuns).toEqual([]);
+  });
+
+  it('rejects the wrong number of fields', () => {
+    expect(validateCronExpression('* * * *')).toMatchObject({ valid: false, error: 'Expected 5 or 6 fields, got 4' });
+    expect(validateCronExpression('* * * * * * *')).toMatchObject({ valid: false, error: 'Expected 5 or 6 fields, got 7' });
+  });
+
+  it('rejects out of range fields', () => {
+    expect(validateCronExpression('61 * * * *').valid).toBe(false);
+    expect(validateCronExpression('0 25 * * *').valid).toBe(false);
+    expect(validateCronExpression('0 0 * 13 *').valid).toBe(false);
+  });
+
+  it('previews the requested number of runs', () => {
+    expect(validateCronExpression('@hourly', undefined, 3).nextRuns).toHaveLength(3);
+  });
+});
+
+describe('getNextRunTimes', () => {
+  it('evaluates expressions in UTC by default', () => {
+    expect(getNextRunTimes('0 9 * * *', 2, FROM)).toEqual([
+      '2026-03-11T09:00:00.000Z',
+      '2026-03-12T09:00:00.000Z'
+    ]);
+  });
+
+  it('evaluates expressions in a timezone', () => {
+    // New York is UTC-4 after the 8 March 2026 DST change
+    expect(getNextRunTimes('0 9 * * *', 1, FROM, 'America/New_York')).toEqual(['2026-03-10T13:00:00.000Z']);
+    expect(getNextRunTimes('0 9 * * *', 1, FROM, 'Asia/Tokyo')).toEqual(['2026-03-11T00:00:00.000Z']);
+  });
+
+  it('resolves normalised macros', () => {
+    expect(getNextRunTimes('@annually', 1, FROM)).toEqual(['2027-01-01T00:00:00.000Z']);
+    expect(getNextRunTimes('@DAILY', 1, FROM)).toEqual(['2026-03-11T00:00:00.000Z']);
+  });
+
+  it('supports a leading seconds field', () => {
+    expect(getNextRunTimes('30 */15 * * * *', 2, FROM)).toEqual([
+      '2026-03-10T12:45:30.000Z',
+      '2026-03-10T13:00:30.000Z'
+    ]);
+  });
+});
+
+describe('isValidTimezone', () => {
+  it('accepts IANA names and rejects others', () => {
+    expect(isValidTimezone('Europe/London')).toBe(true);
+    expect(isValidTimezone('UTC')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import { parseExpression } from 'cron-parser';
+
+// Macros understood by the cron parser and the BullMQ scheduler
+export const CRON_MACROS = ['@yearly', '@annually', '@monthly', '@weekly', '@daily', '@hourly'];
+
+// Macros the parser does not know, accepted as the macro they stand for
+const CRON_MACRO_ALIASES: Record<string, string> = {
+  '@annually': '@yearly'
+};
+
+// Number of upcoming fire times returned to confirm a schedule
+export const PREVIEW_RUN_COUNT = 5;
+
+export interface CronValidationResult {
+  valid: boolean;
+  error?: string;
+  nextRuns: string[];
+}
+
+/**
+ * Check whether a string is an IANA timezone name known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalise a cron expression to the form the parser and the scheduler understand
+ * Trims it, lowercases macros and replaces macro aliases (`@ANNUALLY` becomes `@yearly`).
+ */
+export function normalizeCronExpression(expression: string): string {
+  const trimmed = expression.trim();
+  if (!trimmed.startsWith('@')) {
+    return trimmed;
+  }
+
+  const macro = trimmed.toLowerCase();
+  return CRON_MACRO_ALIASES[macro] || macro;
+}
+
+/**
+ * Validate a cron expression and preview its next fire times
+ *
+ * Accepts 5 fields (minute to day of week), 6 fields with leading seconds,
+ * or one of the supported macros in any case. Field ranges and named
+ * days/months are checked by the parser.
+ *
+ * @param expression - Cron expression to validate
+ * @param timezone - IANA timezone the expression is evaluated in (defaults to UTC)
+ * @param count - Number of fire times to preview
+ */
+export function validateCronExpression(
+  expression: string,
+  timezone?: string,
+  count: number = PREVIEW_RUN_COUNT
+): CronValidationResult {
+  const trimmed = expression.trim();
+
+  if (trimmed.startsWith('@')) {
+    if (!CRON_MACROS.includes(trimmed.toLowerCase())) {
+      return {
+        valid: false,
+        error: `Unknown cron macro '${trimmed}', expected one of: ${CRON_MACROS.join(', ')}`,
+        nextRuns: []
+      };
+    }
+  } else {
+    const fieldCount = trimmed.split(/\s+/).length;
+    if (fieldCount !== 5 && fieldCount !== 6) {
+      return {
+        valid: false,
+        error: `Expected 5 or 6 fields, got ${fieldCount}`,
+        nextRuns: []
+      };
+    }
+  }
+
+  try {
+    return {
+      valid: true,
+      nextRuns: getNextRunTimes(trimmed, count, new Date(), timezone)
+    };
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : String(error),
+      nextRuns: []
+    };
+  }
+}
+
+/**
+ * Get the next fire times of a cron expression
+ *
+ * @param expression - Cron expression (5 fields, 6 with leading seconds, or a macro)
+ * @param count - Number of fire times to return
+ * @param from - Date to start from (defaults to now)
+ * @param timezone - IANA timezone the expression is evaluated in (defaults to UTC)
+ * @returns ISO timestamps of the next fire times
+ */
+export function getNextRunTimes(
+  expression: string,
+  count: number = 1,
+  from: Date = new Date(),
+  timezone?: string
+): string[] {
+  const iterator = parseExpression(
+    normalizeCronExpression(expression),
+    timezone ? { currentDate: from, tz: timezone } : { currentDate: from, utc: true }
+  );
+  const runTimes: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    runTimes.push(iterator.next().toISOString());
+  }
+
+  return runTimes;
+}
+
+const cronUtils = {
+  isValidTimezone,
+  normalizeCronExpression,
+  validateCronExpression,
+  getNextRunTimes
+};
+
+export default cronUtils;
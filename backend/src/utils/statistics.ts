@@ -0,0 +1,26 @@
+/**
+ * Median of a non-empty list of numbers
+ */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Mean of a non-empty list of numbers after dropping the lowest and highest `ratio` of them
+ * Nothing is dropped from lists too short to lose a whole value at each end.
+ */
+export function trimmedMean(values: number[], ratio: number = 0.25): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const trim = Math.floor(sorted.length * ratio);
+  const kept = sorted.slice(trim, sorted.length - trim);
+  return kept.reduce((sum, value) => sum + value, 0) / kept.length;
+}
+
+const statistics = {
+  median,
+  trimmedMean
+};
+
+export default statistics;
@@ -1,5 +1,12 @@
-import { Alchemy, Network, AssetTransfersCategory, SortingOrder } from 'alchemy-sdk';
+import { AssetTransfersCategory, SortingOrder } from 'alchemy-sdk';
+import alchemyClients from '../services/alchemyClients';
+import blockLookup from '../services/blockLookup';
+import tieredCache from '../services/tieredCache';
 import logger from '../utils/logger';
+import { NetworkType } from '../types';
+
+// A token's first transfer does not change, so detected creation dates are kept for long
+const CREATION_CACHE_TTL = 30 * 24 * 60 * 60; // 30 days in seconds
 
 interface TokenCreationResult {
   token: string;
@@ -12,19 +19,25 @@ interface TokenCreationResult {
 
 /**
  * Detect token creation date using Alchemy getAssetTransfers
+ * Successful results are cached and the creation block is stored by the block lookup.
  */
 export async function detectTokenCreationDate(
   token: string,
   network: string
 ): Promise<TokenCreationResult> {
+  const cacheKey = `token-creation:${network.toLowerCase()}:${token.toLowerCase()}`;
+
   try {
+    const cached = await tieredCache.get(cacheKey);
+    if (cached) {
+      logger.info(`Using cached creation date for token ${token} on ${network}`);
+      return JSON.parse(cached);
+    }
+
     logger.info(`Detecting creation date for token ${token} on ${network}`);
 
-    // Get Alchemy instance
-    const alchemy = new Alchemy({
-      apiKey: process.env.ALCHEMY_API_KEY || '',
-      network: network.toLowerCase() as Network
-    });
+    // Get the network's Alchemy client
+    const alchemy = alchemyClients.get(network.toLowerCase() as NetworkType);
 
     // Get the earliest transfer events for this token
     const transfers = await alchemy.core.getAssetTransfers({
@@ -49,10 +62,11 @@ export async function detectTokenCreationDate(
     }
 
     const firstTransfer = transfers.transfers[0];
-    
+    const deploymentBlock = parseInt(firstTransfer.blockNum, 16);
+
     // Get block details to get timestamp
-    const blockDetails = await alchemy.core.getBlock(firstTransfer.blockNum);
-    
+    const blockDetails = await blockLookup.getBlock(network.toLowerCase() as NetworkType, deploymentBlock).catch(() => null);
+
     if (!blockDetails) {
       logger.warn(`Could not get block details for block ${firstTransfer.blockNum}`);
       return {
@@ -60,22 +74,25 @@ export async function detectTokenCreationDate(
         network,
         creationDate: null,
         deploymentTx: firstTransfer.hash,
-        deploymentBlock: parseInt(firstTransfer.blockNum, 16),
+        deploymentBlock,
         error: 'Could not get block timestamp'
       };
     }
 
     const creationDate = new Date(blockDetails.timestamp * 1000).toISOString();
-    
+
     logger.info(`Token ${token} created on ${creationDate}`);
 
-    return {
+    const result: TokenCreationResult = {
       token,
       network,
       creationDate,
       deploymentTx: firstTransfer.hash,
-      deploymentBlock: parseInt(firstTransfer.blockNum, 16)
+      deploymentBlock
     };
+    await tieredCache.set(cacheKey, JSON.stringify(result), CREATION_CACHE_TTL);
+
+    return result;
 
   } catch (error) {
     logger.error(`Error detecting token creation date for ${token}:`, error);
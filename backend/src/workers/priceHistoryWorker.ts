@@ -1,10 +1,15 @@
 import { Job } from 'bullmq';
 import bullMQService, { PriceHistoryJobData, PriceHistoryJobResult } from '../services/bullmq';
 import alchemyService from '../services/alchemy';
-import mongodbService from '../services/mongodb';
+import mongodbService, { StoredSourceType } from '../services/mongodb';
 import interpolationService from '../services/interpolation';
+import outlierGuard from '../services/outlierGuard';
+import priceCache from '../services/priceCache';
+import priceEvents from '../services/priceEvents';
 import tokenUtils from '../utils/tokenUtils';
+import { getNextRunTimes } from '../utils/cron';
 import logger from '../utils/logger';
+import { SourceType } from '../types';
 
 /**
  * Process price history job
@@ -12,7 +17,7 @@ import logger from '../utils/logger';
 export async function processPriceHistoryJob(
   job: Job<PriceHistoryJobData>
 ): Promise<PriceHistoryJobResult> {
-  const { token, network, startDate, endDate, requestId } = job.data;
+  const { token, network, startDate, endDate, scheduleId } = job.data;
   const jobId = job.id;
   const startTime = Date.now();
   
@@ -65,7 +70,14 @@ export async function processPriceHistoryJob(
     
     // Step 5: Fetch missing price data in batches
     const batchSize = tokenUtils.calculateOptimalBatchSize(missingTimestamps.length);
-    const fetchedPrices: Array<{ date: string; price: number; confidence: number }> = [];
+    let fetchedPrices: Array<{
+      date: string;
+      price: number;
+      confidence: number;
+      staleness?: number;
+      basis?: ReturnType<typeof interpolationService.getInterpolationBasis>;
+      source: string;
+    }> = [];
     const errors: string[] = [];
     
     for (let i = 0; i < missingTimestamps.length; i += batchSize) {
@@ -81,7 +93,9 @@ export async function processPriceHistoryJob(
             fetchedPrices.push({
               date: timestamp,
               price: priceData.price,
-              confidence: 1.0 // Direct API data has full confidence
+              confidence: 1.0, // Direct API data has full confidence
+              staleness: 0,
+              source: priceData.source
             });
           } else {
             // Add to errors for potential interpolation
@@ -105,31 +119,44 @@ export async function processPriceHistoryJob(
     logger.info(`Fetched ${fetchedPrices.length} new price records for ${token}`);
     await job.updateProgress(80);
     
-    // Step 6: Interpolate missing data if needed
-    if (errors.length > 0 && fetchedPrices.length > 0) {
-      logger.info(`Attempting to interpolate ${errors.length} missing prices for ${token}`);
-      
-      // Combine existing and fetched prices for interpolation
-      const allPrices = [
-        ...existingPrices.map(p => ({ date: new Date(p.date).toISOString(), price: p.price, confidence: 1.0 })),
-        ...fetchedPrices
-      ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    // Step 6: Quarantine fetched prices far from their neighbours, their days are interpolated instead
+    const admitted = await outlierGuard.guardBatch(
+      token,
+      network,
+      fetchedPrices.map(fp => ({
+        timestamp: Math.floor(new Date(fp.date).getTime() / 1000),
+        price: fp.price,
+        source: fp.source as StoredSourceType
+      }))
+    );
+    fetchedPrices = fetchedPrices.filter((_, index) => admitted[index]);
+    
+    // Step 7: Interpolate missing data if needed
+    const fetchedDates = new Set(fetchedPrices.map(fp => fp.date));
+    const unresolvedTimestamps = missingTimestamps.filter(ts => !fetchedDates.has(ts));
+    if (unresolvedTimestamps.length > 0) {
+      logger.info(`Attempting to interpolate ${unresolvedTimestamps.length} missing prices for ${token}`);
       
-      // Find gaps and interpolate using batch interpolation
-      const missingTimestamps = timestamps.filter(ts => !fetchedPrices.some(fp => fp.date === ts));
+      // Fetched prices are not stored yet, so they are passed alongside the stored ones
       const interpolatedResults = await interpolationService.batchInterpolatePrice(
         token,
         network,
-        missingTimestamps.map(ts => new Date(ts).getTime())
+        unresolvedTimestamps.map(ts => Math.floor(new Date(ts).getTime() / 1000)),
+        'linear',
+        fetchedPrices.map(fp => ({ timestamp: Math.floor(new Date(fp.date).getTime() / 1000), price: fp.price }))
       );
       
+      // Results are aligned with the requested timestamps; map before dropping the gaps
       const interpolatedPrices = interpolatedResults
-        .filter(result => result !== null)
-        .map((result, index) => ({
-          date: new Date(missingTimestamps[index]).toISOString(),
-          price: result!.price,
-          confidence: result!.confidence
-        }));
+        .map((result, index) => result && {
+          date: new Date(unresolvedTimestamps[index]).toISOString(),
+          price: result.price,
+          confidence: result.confidence,
+          staleness: result.staleness,
+          basis: interpolationService.getInterpolationBasis(result),
+          source: 'interpolated'
+        })
+        .filter((price): price is NonNullable<typeof price> => price !== null);
       
       fetchedPrices.push(...interpolatedPrices);
       logger.info(`Interpolated ${interpolatedPrices.length} additional price records for ${token}`);
@@ -137,7 +164,7 @@ export async function processPriceHistoryJob(
     
     await job.updateProgress(90);
     
-    // Step 7: Save to MongoDB
+    // Step 8: Save to MongoDB
     if (fetchedPrices.length > 0) {
       const priceRecords = fetchedPrices.map(fp => ({
         token: token.toUpperCase(),
@@ -145,14 +172,34 @@ export async function processPriceHistoryJob(
         date: new Date(fp.date),
         price: fp.price,
         confidence: fp.confidence,
-        source: fp.confidence === 1.0 ? 'alchemy' : 'interpolated'
+        staleness: fp.staleness,
+        basis: fp.basis,
+        source: fp.source
       }));
       
       await mongodbService.savePriceHistory(priceRecords);
       logger.info(`Saved ${priceRecords.length} price records to MongoDB for ${token}`);
+
+      // Cached prices for the token may have been interpolated around the gaps just filled
+      await priceCache.invalidate(token, network);
+
+      // Let live subscribers know about the most recent price written
+      const latest = fetchedPrices.reduce((a, b) => (new Date(b.date) > new Date(a.date) ? b : a));
+      priceEvents.publish({
+        price: latest.price,
+        source: latest.source as SourceType,
+        timestamp: new Date(latest.date).toISOString(),
+        token: token.toUpperCase(),
+        network: network.toLowerCase(),
+        confidence: latest.confidence
+      });
     }
     
     await job.updateProgress(100);
+
+    if (scheduleId) {
+      await recordScheduledRun(scheduleId);
+    }
     
     const result: PriceHistoryJobResult = {
       token: token.toUpperCase(),
@@ -177,6 +224,29 @@ export async function processPriceHistoryJob(
   }
 }
 
+/**
+ * Record a completed run on the scheduled job that triggered it
+ */
+async function recordScheduledRun(scheduleId: string): Promise<void> {
+  if (!mongodbService.isReady()) {
+    return;
+  }
+
+  try {
+    const schedule = await mongodbService.getScheduledJob(scheduleId);
+    if (!schedule) {
+      return;
+    }
+
+    await mongodbService.updateScheduledJob(scheduleId, {
+      lastRun: new Date().toISOString(),
+      nextRun: schedule.enabled ? getNextRunTimes(schedule.interval, 1, new Date(), schedule.timezone)[0] : null
+    });
+  } catch (error) {
+    logger.warn(`Failed to record run for scheduled job ${scheduleId}:`, error);
+  }
+}
+
 /**
  * Initialize the BullMQ worker
  */
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Alert, AlertDescription } from './ui/alert';
+import { Loader2, CalendarDays } from 'lucide-react';
+import { priceApi, CoverageDay, CoverageResponse } from '../lib/api/priceApi';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COVERAGE_DAYS = 91; // 13 weeks
+
+interface CoverageHeatmapProps {
+  token: string;
+  network: string;
+}
+
+/**
+ * Lay out the coverage window as weeks of 7 days, oldest first, filling days without prices
+ */
+const buildWeeks = (days: CoverageDay[], end: Date): CoverageDay[][] => {
+  const byDate = new Map(days.map((day) => [day.date, day]));
+  const weeks: CoverageDay[][] = [];
+
+  for (let i = COVERAGE_DAYS - 1; i >= 0; i--) {
+    const date = new Date(end.getTime() - i * DAY_MS).toISOString().slice(0, 10);
+    const day = byDate.get(date) || { date, samples: 0, interpolated: 0 };
+
+    if (weeks.length === 0 || weeks[weeks.length - 1].length === 7) {
+      weeks.push([]);
+    }
+    weeks[weeks.length - 1].push(day);
+  }
+
+  return weeks;
+};
+
+/**
+ * Cell colour: darker blue for fewer prices, amber when most of the day was interpolated
+ */
+const getCellClass = (day: CoverageDay, maxSamples: number): string => {
+  if (day.samples === 0) {
+    return 'bg-gray-800';
+  }
+  if (day.interpolated / day.samples > 0.5) {
+    return 'bg-amber-500/80';
+  }
+
+  const density = day.samples / maxSamples;
+  if (density > 0.75) return 'bg-blue-400';
+  if (density > 0.5) return 'bg-blue-500/80';
+  if (density > 0.25) return 'bg-blue-600/70';
+  return 'bg-blue-800/60';
+};
+
+const formatGap = (seconds: number): string => {
+  if (seconds >= 86400) return `${(seconds / 86400).toFixed(1)}d`;
+  if (seconds >= 3600) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${Math.round(seconds / 60)}m`;
+};
+
+/**
+ * Heat map of stored prices per day, to spot thin history before trusting interpolated prices
+ */
+const CoverageHeatmap: React.FC<CoverageHeatmapProps> = ({ token, network }) => {
+  const [coverage, setCoverage] = useState<CoverageResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [end, setEnd] = useState(() => new Date());
+
+  const canLoad = token.trim().length > 0 && network.trim().length > 0;
+
+  const fetchCoverage = async () => {
+    if (!canLoad) return;
+
+    const to = new Date();
+    const from = new Date(to.getTime() - COVERAGE_DAYS * DAY_MS);
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await priceApi.getCoverage(token.trim(), network.trim(), {
+        from: from.toISOString(),
+        to: to.toISOString()
+      });
+      setCoverage(response);
+      setEnd(to);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch data coverage');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const weeks = coverage ? buildWeeks(coverage.days, end) : [];
+  const maxSamples = coverage ? Math.max(1, ...coverage.days.map((day) => day.samples)) : 1;
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-700/50 backdrop-blur-xl shadow-2xl">
+      <CardHeader className="bg-gradient-to-r from-cyan-900/30 to-blue-900/30 border-b border-gray-700/50">
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-3 text-xl">
+            <div className="p-2 bg-gradient-to-r from-cyan-500 to-blue-500 rounded-lg">
+              <CalendarDays className="h-5 w-5 text-white" />
+            </div>
+            <span className="bg-gradient-to-r from-cyan-400 to-blue-400 bg-clip-text text-transparent">
+              Data Coverage
+            </span>
+          </div>
+          <Button
+            onClick={fetchCoverage}
+            disabled={!canLoad || loading}
+            variant="secondary"
+            className="text-xs"
+          >
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Check Coverage'}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {error && (
+          <Alert className="border-red-500/50 bg-red-900/20">
+            <AlertDescription className="text-red-200">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!coverage && !error && (
+          <div className="text-sm text-gray-400 text-center py-4">
+            Shows how many prices are stored per day over the last 13 weeks
+          </div>
+        )}
+
+        {coverage && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <div className="text-gray-400">Stored Prices</div>
+                <div className="text-white font-mono">{coverage.dataPoints}</div>
+              </div>
+              <div>
+                <div className="text-gray-400">Average Gap</div>
+                <div className="text-white font-mono">{formatGap(coverage.averageGap)}</div>
+              </div>
+              <div>
+                <div className="text-gray-400">Largest Gap</div>
+                <div className="text-white font-mono">{formatGap(coverage.maxGap)}</div>
+              </div>
+              <div>
+                <div className="text-gray-400">Interpolated</div>
+                <div className="text-white font-mono">{(coverage.interpolatedShare * 100).toFixed(1)}%</div>
+              </div>
+            </div>
+
+            <div className="flex gap-1 overflow-x-auto">
+              {weeks.map((week) => (
+                <div key={week[0].date} className="flex flex-col gap-1">
+                  {week.map((day) => (
+                    <div
+                      key={day.date}
+                      title={`${day.date}: ${day.samples} prices, ${day.interpolated} interpolated`}
+                      className={`w-4 h-4 rounded-sm ${getCellClass(day, maxSamples)}`}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-4 text-xs text-gray-400">
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-gray-800" /> No data</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-blue-800/60" /> Sparse</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-blue-400" /> Dense</span>
+              <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-amber-500/80" /> Mostly interpolated</span>
+            </div>
+
+            {coverage.earliest && coverage.latest && (
+              <div className="text-xs text-gray-500">
+                History from {new Date(coverage.earliest).toLocaleDateString()} to {new Date(coverage.latest).toLocaleDateString()}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CoverageHeatmap;
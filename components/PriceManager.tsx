@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { usePriceStore } from '../stores/usePriceStore';
 import { usePriceManager } from '../hooks/usePriceActions';
+import { useLivePrice } from '../hooks/useLivePrice';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -9,6 +10,7 @@ import { Alert, AlertDescription } from './ui/alert';
 import { Progress } from './ui/progress';
 import { Loader2, Clock, TrendingUp, History, CheckCircle, XCircle } from 'lucide-react';
 import { priceApi } from '../lib/api/priceApi';
+import CoverageHeatmap from './CoverageHeatmap';
 
 const PriceManager: React.FC = () => {
   const [scheduledJobs, setScheduledJobs] = useState<any[]>([]);
@@ -38,8 +40,13 @@ const PriceManager: React.FC = () => {
     isScheduling,
     scheduleProgress,
     cancelSchedule,
+    runningJob,
+    checkRunningJob,
   } = usePriceManager();
 
+  // Keep a fetched current price updating until the token or network changes
+  const livePrice = useLivePrice(token, network, success && !timestamp);
+
   const handleScheduleHistory = async () => {
     if (!token || !network) return;
 
@@ -93,7 +100,7 @@ const PriceManager: React.FC = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
 
           {/* Main Input Panel */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
             <Card className="bg-gray-900/50 border-gray-700/50 backdrop-blur-xl shadow-2xl">
               <CardHeader className="bg-gradient-to-r from-blue-900/30 to-purple-900/30 border-b border-gray-700/50">
                 <CardTitle className="flex items-center gap-3 text-2xl">
@@ -244,6 +251,9 @@ const PriceManager: React.FC = () => {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Data Coverage */}
+            <CoverageHeatmap token={token} network={network} />
           </div>
 
           {/* Results Panel */}
@@ -280,6 +290,12 @@ const PriceManager: React.FC = () => {
                           {new Date(timestamp).toLocaleString()}
                         </div>
                       )}
+                      {!timestamp && livePrice && (
+                        <div className="flex items-center justify-center gap-2 text-xs text-green-400 mt-1">
+                          <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
+                          Live: ${livePrice.price} at {new Date(livePrice.timestamp).toLocaleTimeString()}
+                        </div>
+                      )}
                     </div>
                     <div className="grid grid-cols-2 gap-4 text-sm">
                       <div>
@@ -384,6 +400,24 @@ const PriceManager: React.FC = () => {
                   </div>
                 )}
 
+                {runningJob && !isScheduling && (
+                  <Alert className="border-yellow-500/50 bg-yellow-900/20">
+                    <AlertDescription className="flex items-center justify-between gap-4 text-yellow-200">
+                      <span>
+                        Still running in the background ({scheduleProgress}% when last checked).
+                      </span>
+                      <Button
+                        onClick={checkRunningJob}
+                        variant="secondary"
+                        size="sm"
+                        className="border-gray-600/50 text-gray-300 hover:bg-gray-800/50"
+                      >
+                        Check progress
+                      </Button>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 <div className="text-sm text-gray-400 bg-gray-800/30 p-4 rounded-xl">
                   <div className="font-medium text-purple-300 mb-2">What this does:</div>
                   <ul className="space-y-1 text-xs">
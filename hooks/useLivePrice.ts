@@ -0,0 +1,26 @@
+import { useEffect } from 'react';
+import { useLivePriceData, usePriceStore } from '../stores/usePriceStore';
+import { priceStream } from '../lib/api/priceStream';
+
+/**
+ * Custom hook subscribing to live prices for a token on a network
+ * Updates are kept in the store so every component watching the pair shares them
+ */
+export const useLivePrice = (token: string, network: string, enabled: boolean = true) => {
+  const setLivePrice = usePriceStore((state) => state.setLivePrice);
+  const livePrice = useLivePriceData(token.trim(), network.trim());
+
+  useEffect(() => {
+    const trimmedToken = token.trim();
+    const trimmedNetwork = network.trim();
+
+    if (!enabled || !trimmedToken || !trimmedNetwork) {
+      return;
+    }
+
+    // The last price stays in the store after unsubscribing, other components may share it
+    return priceStream.subscribe(trimmedToken, trimmedNetwork, setLivePrice);
+  }, [token, network, enabled, setLivePrice]);
+
+  return livePrice;
+};
@@ -1,4 +1,4 @@
-import { useCallback } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { usePriceStore } from '../stores/usePriceStore';
 import { priceApi, handleApiError, PriceRequest, ScheduleRequest } from '../lib/api/priceApi';
 
@@ -47,8 +47,9 @@ export const usePriceActions = () => {
       // Make API call
       const response = await priceApi.getPrice(requestData);
 
-      // Update store with results
-      setResult(response.price, response.source);
+      // Update store with results, naming the source behind cached prices
+      const source = response.originalSource ? `${response.source} (${response.originalSource})` : response.source;
+      setResult(response.price, source);
       setSuccess(true);
 
       console.log('Price fetched successfully:', response);
@@ -67,6 +68,12 @@ export const usePriceActions = () => {
   };
 };
 
+// How long a scheduled run's progress is followed before the stream is closed
+const PROGRESS_TIMEOUT_MS = 10 * 60 * 1000;
+
+// How following a run ended: it finished, it outlasted the timeout, or the user stopped following it
+type TrackingOutcome = 'completed' | 'running' | 'cancelled';
+
 /**
  * Custom hook for handling scheduling functionality
  */
@@ -76,21 +83,74 @@ export const useScheduleActions = () => {
     network,
     isScheduling,
     scheduleProgress,
+    runningJob,
     setIsScheduling,
     setScheduleProgress,
+    setRunningJob,
     resetSchedule,
     setError,
   } = usePriceStore();
 
-  const simulateProgress = useCallback(async (): Promise<void> => {
-    const progressSteps = [0, 10, 25, 40, 55, 70, 85, 100];
-    const delay = 300; // 300ms between steps
+  const closeEventsRef = useRef<(() => void) | null>(null);
 
-    for (const step of progressSteps) {
-      await new Promise(resolve => setTimeout(resolve, delay));
-      setScheduleProgress(step);
-    }
-  }, [setScheduleProgress]);
+  const closeEvents = useCallback((): void => {
+    closeEventsRef.current?.();
+    closeEventsRef.current = null;
+  }, []);
+
+  // Close any open progress stream when the component unmounts
+  useEffect(() => closeEvents, [closeEvents]);
+
+  const trackProgress = useCallback((jobId: string, runId: string): Promise<TrackingOutcome> => {
+    closeEvents();
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+
+      // Every way out (terminal event, stream error, timeout or cancel) closes the stream once
+      const finish = (outcome: TrackingOutcome | Error): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeout);
+        unsubscribe();
+        closeEventsRef.current = null;
+
+        if (outcome instanceof Error) {
+          reject(outcome);
+        } else {
+          resolve(outcome);
+        }
+      };
+
+      const unsubscribe = priceApi.subscribeToJobEvents(jobId, (event) => {
+        // Other runs of the same schedule may report on this stream too
+        if (event.jobId !== runId) {
+          return;
+        }
+
+        if (event.type === 'progress') {
+          setScheduleProgress(event.progress);
+        } else if (event.type === 'completed') {
+          setScheduleProgress(100);
+          finish('completed');
+        } else if (event.type === 'failed') {
+          finish(new Error(`Job failed: ${event.error}`));
+        }
+      }, {
+        runId,
+        onError: finish,
+      });
+
+      // Long backfills outlast the timeout; they keep running and can be checked on later
+      timeout = setTimeout(() => finish('running'), PROGRESS_TIMEOUT_MS);
+
+      // Closing the stream (cancel or unmount) stops tracking
+      closeEventsRef.current = () => finish('cancelled');
+    });
+  }, [closeEvents, setScheduleProgress]);
 
   const handleSchedule = useCallback(async (): Promise<void> => {
     // Validation
@@ -118,17 +178,22 @@ export const useScheduleActions = () => {
 
       console.log('Scheduling job for:', requestData);
 
-      // Start progress simulation
-      const progressPromise = simulateProgress();
-
       // Make API call
-      const apiPromise = priceApi.scheduleJob(requestData);
-
-      // Wait for both to complete
-      const [response] = await Promise.all([apiPromise, progressPromise]);
+      const response = await priceApi.scheduleJob(requestData);
 
       console.log('Job scheduled successfully:', response);
 
+      // Follow the initial run; without a queue the job is only stored
+      if (response.queueJobId) {
+        const outcome = await trackProgress(response.jobId, response.queueJobId);
+        if (outcome === 'running') {
+          setRunningJob({ jobId: response.jobId, runId: response.queueJobId });
+          return;
+        }
+      } else {
+        setScheduleProgress(100);
+      }
+
       // Keep the progress at 100% for a moment before resetting
       await new Promise(resolve => setTimeout(resolve, 1000));
       
@@ -139,18 +204,51 @@ export const useScheduleActions = () => {
     } finally {
       setIsScheduling(false);
     }
-  }, [token, network, setIsScheduling, setError, resetSchedule, simulateProgress]);
+  }, [token, network, setIsScheduling, setScheduleProgress, setRunningJob, setError, resetSchedule, trackProgress]);
+
+  /**
+   * Follow a run that was still going when tracking timed out
+   * The stream reports where the run is as soon as it opens.
+   */
+  const checkRunningJob = useCallback(async (): Promise<void> => {
+    if (!runningJob) {
+      return;
+    }
+
+    try {
+      setIsScheduling(true);
+      setError(null);
+
+      const outcome = await trackProgress(runningJob.jobId, runningJob.runId);
+      if (outcome !== 'completed') {
+        return;
+      }
+
+      setRunningJob(null);
+      // Keep the progress at 100% for a moment before resetting
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    } catch (error) {
+      setRunningJob(null);
+      setError(handleApiError(error));
+      console.error('Error checking job progress:', error);
+    } finally {
+      setIsScheduling(false);
+    }
+  }, [runningJob, setIsScheduling, setRunningJob, setError, trackProgress]);
 
   const cancelSchedule = useCallback((): void => {
+    closeEvents();
     resetSchedule();
-  }, [resetSchedule]);
+  }, [closeEvents, resetSchedule]);
 
   return {
     handleSchedule,
     cancelSchedule,
+    checkRunningJob,
     canSchedule: !!(token.trim() && network.trim()),
     isScheduling,
     scheduleProgress,
+    runningJob,
   };
 };
 
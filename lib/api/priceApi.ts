@@ -33,10 +33,30 @@ apiClient.interceptors.response.use(
 );
 
 // Types for API requests and responses
+export type InterpolationMethod = 'linear' | 'previous' | 'spline' | 'log-linear';
+export type ExtrapolationMode = 'carry' | 'trend';
+export type AggregationMethod = 'median' | 'trimmed-mean';
+
 export interface PriceRequest {
   token: string;
   network: string;
   timestamp: string;
+  method?: InterpolationMethod;
+  extrapolate?: ExtrapolationMode;
+  maxStaleness?: number;
+  minConfidence?: number;
+  aggregate?: boolean;
+  aggregation?: AggregationMethod;
+}
+
+export interface PriceAnchor {
+  timestamp: string;
+  price: number;
+}
+
+export interface PriceQuote {
+  source: string;
+  price: number;
 }
 
 export interface PriceResponse {
@@ -45,11 +65,26 @@ export interface PriceResponse {
   timestamp: string;
   token: string;
   network: string;
+  method?: InterpolationMethod;
+  extrapolation?: ExtrapolationMode;
+  confidence?: number;
+  staleness?: number;
+  basis?: {
+    before: PriceAnchor | null;
+    after: PriceAnchor | null;
+  };
+  aggregation?: AggregationMethod;
+  quotes?: PriceQuote[];
+  divergence?: number;
+  originalSource?: string;
+  cachedAt?: string;
 }
 
 export interface ScheduleRequest {
   token: string;
   network: string;
+  interval?: string;
+  timezone?: string;
 }
 
 export interface ScheduleResponse {
@@ -57,6 +92,46 @@ export interface ScheduleResponse {
   message: string;
   jobId: string;
   estimatedTime: number;
+  nextRuns?: string[];
+  queueJobId?: string;
+}
+
+export interface JobResult {
+  token: string;
+  network: string;
+  pricesProcessed: number;
+  duration: number;
+  errors: string[];
+}
+
+export type JobEvent =
+  | { type: 'active'; jobId: string }
+  | { type: 'progress'; jobId: string; progress: number }
+  | { type: 'completed'; jobId: string; result: JobResult }
+  | { type: 'failed'; jobId: string; error: string };
+
+export interface JobEventsOptions {
+  runId?: string;
+  onError?: (error: Error) => void;
+}
+
+export interface CoverageDay {
+  date: string; // YYYY-MM-DD, UTC
+  samples: number;
+  interpolated: number;
+}
+
+export interface CoverageResponse {
+  token: string;
+  network: string;
+  dataPoints: number;
+  earliest: string | null;
+  latest: string | null;
+  averageGap: number; // seconds between consecutive stored prices
+  maxGap: number;
+  interpolatedShare: number;
+  period: string;
+  days: CoverageDay[];
 }
 
 export interface ApiError {
@@ -140,6 +215,61 @@ export const priceApi = {
       throw new Error(errorMessage);
     }
   },
+
+  /**
+   * Get stored price coverage for a token, with per-day counts between from and to
+   */
+  async getCoverage(token: string, network: string, range: { from?: string; to?: string } = {}): Promise<CoverageResponse> {
+    try {
+      const response = await apiClient.get<CoverageResponse>(
+        `/coverage/${encodeURIComponent(network)}/${encodeURIComponent(token)}`,
+        { params: range }
+      );
+      return response.data;
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      if (axiosError.response?.status === 400) {
+        throw new Error('Invalid token or network');
+      } else if (axiosError.response?.status === 503) {
+        throw new Error('Price history is temporarily unavailable');
+      }
+
+      const errorMessage = (axiosError.response?.data as any)?.message ||
+        axiosError.message ||
+        'Failed to fetch data coverage';
+      throw new Error(errorMessage);
+    }
+  },
+
+  /**
+   * Stream progress, completion and failure events of a scheduled job's runs
+   * Returns a function that closes the stream
+   */
+  subscribeToJobEvents(
+    jobId: string,
+    onEvent: (event: JobEvent) => void,
+    options: JobEventsOptions = {}
+  ): () => void {
+    const query = options.runId ? `?runId=${encodeURIComponent(options.runId)}` : '';
+    const source = new EventSource(`${apiClient.defaults.baseURL}/schedule/${jobId}/events${query}`);
+
+    const eventTypes: JobEvent['type'][] = ['active', 'progress', 'completed', 'failed'];
+    eventTypes.forEach((type) => {
+      source.addEventListener(type, (message) => {
+        onEvent(JSON.parse((message as MessageEvent<string>).data) as JobEvent);
+      });
+    });
+
+    source.onerror = () => {
+      // The browser reconnects on its own unless the server refused the stream
+      if (source.readyState === EventSource.CLOSED) {
+        options.onError?.(new Error('Job progress stream is not available'));
+      }
+    };
+
+    return () => source.close();
+  },
 };
 
 // Utility function for handling API errors consistently
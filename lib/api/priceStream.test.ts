@@ -0,0 +1,125 @@
+import { getLivePriceKey, LivePrice, normalizeToken, priceStream } from './priceStream';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+/**
+ * Stand-in for the browser WebSocket that records sent messages and lets tests drive its events
+ */
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  open(): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  push(message: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+const price = (token: string, network: string = 'ethereum'): LivePrice => ({
+  price: 1,
+  source: 'coingecko',
+  timestamp: '2026-03-10T12:00:00.000Z',
+  token,
+  network,
+});
+
+const lastSocket = (): FakeWebSocket => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+beforeAll(() => {
+  Object.assign(globalThis, { window: globalThis, WebSocket: FakeWebSocket });
+});
+
+beforeEach(() => {
+  FakeWebSocket.instances = [];
+});
+
+describe('normalizeToken', () => {
+  it('lowercases contract addresses and uppercases symbols, as the backend does', () => {
+    expect(normalizeToken(USDC)).toBe(USDC.toLowerCase());
+    expect(normalizeToken('0X' + USDC.slice(2))).toBe(USDC.toLowerCase());
+    expect(normalizeToken('eth')).toBe('ETH');
+    expect(getLivePriceKey(USDC, 'Ethereum')).toBe(`${USDC.toLowerCase()}:ethereum`);
+  });
+});
+
+describe('priceStream', () => {
+  it('subscribes to a contract address made before the socket opens once it does', () => {
+    const listener = jest.fn();
+    const unsubscribe = priceStream.subscribe(USDC, 'Ethereum', listener);
+
+    const socket = lastSocket();
+    expect(socket.sent).toEqual([]);
+
+    socket.open();
+    expect(socket.sent).toEqual([{ action: 'subscribe', token: USDC.toLowerCase(), network: 'ethereum' }]);
+
+    socket.push({ type: 'price', data: price(USDC.toLowerCase()) });
+    expect(listener).toHaveBeenCalledWith(price(USDC.toLowerCase()));
+
+    unsubscribe();
+    expect(socket.sent[1]).toEqual({ action: 'unsubscribe', token: USDC.toLowerCase(), network: 'ethereum' });
+    expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+  });
+
+  it('shares one server subscription between listeners of the same pair', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribeFirst = priceStream.subscribe('eth', 'ethereum', first);
+    const socket = lastSocket();
+    socket.open();
+
+    const unsubscribeSecond = priceStream.subscribe('ETH', 'ethereum', second);
+    expect(socket.sent).toEqual([{ action: 'subscribe', token: 'ETH', network: 'ethereum' }]);
+
+    socket.push({ type: 'price', data: price('ETH') });
+    socket.push({ type: 'price', data: price('BTC') });
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+
+    unsubscribeFirst();
+    expect(socket.sent).toHaveLength(1);
+    unsubscribeSecond();
+    expect(socket.sent[1]).toEqual({ action: 'unsubscribe', token: 'ETH', network: 'ethereum' });
+  });
+
+  it('restores subscriptions after a reconnect', () => {
+    jest.useFakeTimers();
+    const unsubscribe = priceStream.subscribe(USDC, 'polygon', jest.fn());
+    lastSocket().open();
+    lastSocket().close();
+
+    jest.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    lastSocket().open();
+    expect(lastSocket().sent).toEqual([{ action: 'subscribe', token: USDC.toLowerCase(), network: 'polygon' }]);
+
+    unsubscribe();
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,164 @@
+// Live price updates pushed by the backend over WebSocket
+export interface LivePrice {
+  price: number;
+  source: string;
+  timestamp: string;
+  token: string;
+  network: string;
+}
+
+type LivePriceListener = (price: LivePrice) => void;
+
+// A pair subscribed on the server, with the components listening to it
+interface Subscription {
+  token: string;
+  network: string;
+  listeners: Set<LivePriceListener>;
+}
+
+type StreamMessage =
+  | { type: 'subscribed' | 'unsubscribed'; token: string; network: string }
+  | { type: 'price'; data: LivePrice }
+  | { type: 'error'; message: string };
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+/**
+ * Resolve the stream URL from NEXT_PUBLIC_PRICE_STREAM_URL or the API URL's origin
+ */
+const getStreamUrl = (): string => {
+  if (process.env.NEXT_PUBLIC_PRICE_STREAM_URL) {
+    return process.env.NEXT_PUBLIC_PRICE_STREAM_URL;
+  }
+
+  const apiUrl = new URL(process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api');
+  const protocol = apiUrl.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${apiUrl.host}/ws/prices`;
+};
+
+/**
+ * Normalise a token as the backend does: contract addresses lowercase, symbols uppercase
+ */
+export const normalizeToken = (token: string): string =>
+  /^0x/i.test(token) ? token.toLowerCase() : token.toUpperCase();
+
+export const getLivePriceKey = (token: string, network: string): string =>
+  `${normalizeToken(token)}:${network.toLowerCase()}`;
+
+/**
+ * Shared WebSocket connection for live prices
+ * Subscriptions are reference counted so components can subscribe to the same pair,
+ * and are restored automatically after a reconnect.
+ */
+class PriceStreamClient {
+  private socket: WebSocket | null = null;
+  private subscriptions = new Map<string, Subscription>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Subscribe to live prices for a token on a network
+   * Returns a function that removes the subscription
+   */
+  subscribe(token: string, network: string, listener: LivePriceListener): () => void {
+    const key = getLivePriceKey(token, network);
+    const subscription = this.subscriptions.get(key) || {
+      token: normalizeToken(token),
+      network: network.toLowerCase(),
+      listeners: new Set<LivePriceListener>(),
+    };
+    const isNewPair = subscription.listeners.size === 0;
+
+    subscription.listeners.add(listener);
+    this.subscriptions.set(key, subscription);
+
+    if (isNewPair) {
+      this.send({ action: 'subscribe', token: subscription.token, network: subscription.network });
+    }
+    this.connect();
+
+    return () => {
+      subscription.listeners.delete(listener);
+      if (subscription.listeners.size > 0) {
+        return;
+      }
+
+      this.subscriptions.delete(key);
+      this.send({ action: 'unsubscribe', token: subscription.token, network: subscription.network });
+
+      if (this.subscriptions.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  private connect(): void {
+    if (this.socket || this.reconnectTimer || typeof window === 'undefined') {
+      return;
+    }
+
+    const socket = new WebSocket(getStreamUrl());
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.subscriptions.forEach(({ token, network }) => {
+        this.send({ action: 'subscribe', token, network });
+      });
+    };
+
+    socket.onmessage = (event) => {
+      const message = JSON.parse(event.data) as StreamMessage;
+
+      if (message.type === 'price') {
+        const key = getLivePriceKey(message.data.token, message.data.network);
+        this.subscriptions.get(key)?.listeners.forEach((listener) => listener(message.data));
+      } else if (message.type === 'error') {
+        console.error('Price stream error:', message.message);
+      }
+    };
+
+    socket.onclose = () => {
+      // Ignore sockets replaced after an explicit disconnect
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.socket = null;
+      if (this.subscriptions.size > 0) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private send(message: { action: 'subscribe' | 'unsubscribe'; token: string; network: string }): void {
+    // Messages sent before the socket opens are replayed from the subscriptions on open
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+export const priceStream = new PriceStreamClient();
+export default priceStream;
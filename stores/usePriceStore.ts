@@ -1,5 +1,11 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
+import { getLivePriceKey, LivePrice } from '../lib/api/priceStream';
+
+export interface RunningJob {
+  jobId: string;
+  runId: string;
+}
 
 export interface PriceState {
   // Input fields
@@ -19,6 +25,10 @@ export interface PriceState {
   // Scheduling fields
   isScheduling: boolean;
   scheduleProgress: number;
+  runningJob: RunningJob | null; // run still going when its progress stopped being followed
+  
+  // Live prices keyed by getLivePriceKey (TOKEN:network, contract addresses lowercase)
+  livePrices: Record<string, LivePrice>;
   
   // Actions
   setToken: (token: string) => void;
@@ -32,8 +42,12 @@ export interface PriceState {
   // Scheduling actions
   setIsScheduling: (isScheduling: boolean) => void;
   setScheduleProgress: (progress: number) => void;
+  setRunningJob: (runningJob: RunningJob | null) => void;
   resetSchedule: () => void;
   
+  // Live price actions
+  setLivePrice: (price: LivePrice) => void;
+  
   // Reset functions
   resetPrice: () => void;
   resetAll: () => void;
@@ -50,6 +64,8 @@ const initialState = {
   success: false,
   isScheduling: false,
   scheduleProgress: 0,
+  runningJob: null,
+  livePrices: {},
 };
 
 export const usePriceStore = create<PriceState>()(
@@ -96,12 +112,22 @@ export const usePriceStore = create<PriceState>()(
       setScheduleProgress: (progress: number) => 
         set({ scheduleProgress: Math.min(100, Math.max(0, progress)) }, false, 'setScheduleProgress'),
       
+      setRunningJob: (runningJob: RunningJob | null) =>
+        set({ runningJob }, false, 'setRunningJob'),
+      
       resetSchedule: () => 
         set({ 
           isScheduling: false, 
-          scheduleProgress: 0 
+          scheduleProgress: 0,
+          runningJob: null
         }, false, 'resetSchedule'),
       
+      // Live price actions
+      setLivePrice: (price: LivePrice) => 
+        set((state) => ({ 
+          livePrices: { ...state.livePrices, [getLivePriceKey(price.token, price.network)]: price } 
+        }), false, 'setLivePrice'),
+      
       // Reset functions
       resetPrice: () => 
         set({ 
@@ -143,4 +169,9 @@ export const usePriceStatus = () => usePriceStore((state) => ({
 export const useScheduleStatus = () => usePriceStore((state) => ({
   isScheduling: state.isScheduling,
   scheduleProgress: state.scheduleProgress,
+  runningJob: state.runningJob,
 }));
+
+export const useLivePriceData = (token: string, network: string) => usePriceStore((state) =>
+  state.livePrices[getLivePriceKey(token, network)] ?? null
+);